@@ -6,6 +6,7 @@ export const TAB_ICONS: Record<TabType, string> = {
   notifications: 'i-ph:bell-fill',
   features: 'i-ph:star-fill',
   data: 'i-ph:database-fill',
+  usage: 'i-ph:currency-dollar-fill',
   'cloud-providers': 'i-ph:cloud-fill',
   'local-providers': 'i-ph:desktop-fill',
   'service-status': 'i-ph:activity-bold',
@@ -23,6 +24,7 @@ export const TAB_LABELS: Record<TabType, string> = {
   notifications: 'Notifications',
   features: 'Features',
   data: 'Data Management',
+  usage: 'Usage',
   'cloud-providers': 'Cloud Providers',
   'local-providers': 'Local Providers',
   'service-status': 'Service Status',
@@ -40,6 +42,7 @@ export const TAB_DESCRIPTIONS: Record<TabType, string> = {
   notifications: 'View and manage your notifications',
   features: 'Explore new and upcoming features',
   data: 'Manage your data and storage',
+  usage: 'Track token usage and cost',
   'cloud-providers': 'Configure cloud AI providers and models',
   'local-providers': 'Configure local AI providers and models',
   'service-status': 'Monitor cloud LLM service status',
@@ -70,6 +73,7 @@ export const DEFAULT_TAB_CONFIG = [
   // User Window Tabs (Hidden, controlled by TaskManagerTab)
   { id: 'debug', visible: false, window: 'user' as const, order: 11 },
   { id: 'update', visible: false, window: 'user' as const, order: 12 },
+  { id: 'usage', visible: true, window: 'user' as const, order: 13 },
 
   // Developer Window Tabs (All visible by default)
   { id: 'features', visible: true, window: 'developer' as const, order: 0 },
@@ -85,4 +89,5 @@ export const DEFAULT_TAB_CONFIG = [
   { id: 'service-status', visible: true, window: 'developer' as const, order: 10 },
   { id: 'debug', visible: true, window: 'developer' as const, order: 11 },
   { id: 'update', visible: true, window: 'developer' as const, order: 12 },
+  { id: 'usage', visible: true, window: 'developer' as const, order: 13 },
 ];
@@ -8,6 +8,7 @@ export type TabType =
   | 'notifications'
   | 'features'
   | 'data'
+  | 'usage'
   | 'cloud-providers'
   | 'local-providers'
   | 'service-status'
@@ -72,6 +73,7 @@ export const TAB_LABELS: Record<TabType, string> = {
   notifications: 'Notifications',
   features: 'Features',
   data: 'Data Management',
+  usage: 'Usage',
   'cloud-providers': 'Cloud Providers',
   'local-providers': 'Local Providers',
   'service-status': 'Service Status',
@@ -17,6 +17,7 @@ const TAB_ICONS: Record<TabType, string> = {
   notifications: 'i-ph:bell-fill',
   features: 'i-ph:star-fill',
   data: 'i-ph:database-fill',
+  usage: 'i-ph:currency-dollar-fill',
   'cloud-providers': 'i-ph:cloud-fill',
   'local-providers': 'i-ph:desktop-fill',
   'service-status': 'i-ph:activity-fill',
@@ -37,6 +38,7 @@ const DEFAULT_USER_TABS: TabType[] = [
   'connection',
   'notifications',
   'event-logs',
+  'usage',
 ];
 
 // Define which tabs can be added to user mode
@@ -3,16 +3,19 @@ import { motion } from 'framer-motion';
 import { toast } from 'react-toastify';
 import { DialogRoot, DialogClose, Dialog, DialogTitle } from '~/components/ui/Dialog';
 import { db, getAll, deleteById } from '~/lib/persistence';
+import { exportUserPrompts, importUserPrompts } from '~/lib/stores/prompts';
 
 export default function DataTab() {
   const [isDownloadingTemplate, setIsDownloadingTemplate] = useState(false);
   const [isImportingKeys, setIsImportingKeys] = useState(false);
+  const [isImportingPrompts, setIsImportingPrompts] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showResetInlineConfirm, setShowResetInlineConfirm] = useState(false);
   const [showDeleteInlineConfirm, setShowDeleteInlineConfirm] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const apiKeyFileInputRef = useRef<HTMLInputElement>(null);
+  const promptFileInputRef = useRef<HTMLInputElement>(null);
 
   const handleExportAllChats = async () => {
     try {
@@ -132,6 +135,50 @@ export default function DataTab() {
     }
   };
 
+  const handleExportPrompts = () => {
+    try {
+      const blob = new Blob([JSON.stringify(exportUserPrompts(), null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bolt-prompts-${new Date().toISOString()}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('Prompts exported successfully');
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export prompts');
+    }
+  };
+
+  const handleImportPrompts = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    setIsImportingPrompts(true);
+
+    try {
+      const count = await importUserPrompts(JSON.parse(await file.text()));
+
+      toast.success(`${count} prompts imported successfully`);
+    } catch (error) {
+      console.error('Error importing prompts:', error);
+      toast.error('Failed to import prompts');
+    } finally {
+      setIsImportingPrompts(false);
+
+      if (promptFileInputRef.current) {
+        promptFileInputRef.current.value = '';
+      }
+    }
+  };
+
   const handleDownloadTemplate = () => {
     setIsDownloadingTemplate(true);
 
@@ -395,6 +442,54 @@ export default function DataTab() {
         </div>
       </motion.div>
 
+      {/* Prompts Section */}
+      <motion.div
+        className="bg-white dark:bg-[#0A0A0A] rounded-lg p-6 border border-[#E5E5E5] dark:border-[#1A1A1A]"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.25 }}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <div className="i-ph:note-pencil-duotone w-5 h-5 text-purple-500" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Prompts</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Share your system prompts with their versions as a JSON file, or import prompts shared with you.
+        </p>
+        <div className="flex gap-4">
+          <input
+            ref={promptFileInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleImportPrompts}
+            className="hidden"
+          />
+          <motion.button
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-500 text-white text-sm hover:bg-purple-600"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleExportPrompts}
+          >
+            <div className="i-ph:download-simple w-4 h-4" />
+            Export Prompts
+          </motion.button>
+          <motion.button
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-500 text-white text-sm hover:bg-purple-600"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => promptFileInputRef.current?.click()}
+            disabled={isImportingPrompts}
+          >
+            {isImportingPrompts ? (
+              <div className="i-ph:spinner-gap-bold animate-spin w-4 h-4" />
+            ) : (
+              <div className="i-ph:upload-simple w-4 h-4" />
+            )}
+            Import Prompts
+          </motion.button>
+        </div>
+      </motion.div>
+
       {/* API Keys Management Section */}
       <motion.div
         className="bg-white dark:bg-[#0A0A0A] rounded-lg p-6 border border-[#E5E5E5] dark:border-[#1A1A1A]"
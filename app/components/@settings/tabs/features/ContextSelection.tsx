@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { getModelKey, parseModelKey } from '~/lib/stores/settings';
+import type { ContextSelection as ContextSelectionMode } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'p-2 rounded-lg text-sm flex-1 min-w-0',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const MODES: Array<{ value: ContextSelectionMode; label: string }> = [
+  { value: 'llm', label: 'The model picks from all files' },
+  { value: 'hybrid', label: 'The model picks from the most similar files' },
+  { value: 'embeddings', label: 'The most similar files, without a model call' },
+];
+
+/**
+ * How the files of the context buffer are picked, and the model that embeds the project files to find the
+ * ones most similar to a request.
+ */
+export function ContextSelection() {
+  const { contextSelection, setContextSelection, embeddingModel, setEmbeddingModel, activeProviders } = useSettings();
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  const embeddingProviders = activeProviders.filter((p) => p.embeddingModels);
+  const suggestions = embeddingProviders.find((p) => p.name === provider)?.embeddingModels ?? [];
+  const current = embeddingModel ? parseModelKey(embeddingModel) : undefined;
+
+  const saveModel = () => {
+    if (!provider || !model.trim()) {
+      return;
+    }
+
+    setEmbeddingModel(getModelKey(provider, model.trim()));
+    setModel('');
+    toast.success(`Embedding project files with ${model.trim()}`);
+  };
+
+  const removeModel = () => {
+    setEmbeddingModel('');
+    setContextSelection('llm');
+    toast.success('Embedding model removed');
+  };
+
+  return (
+    <motion.div
+      layout
+      className={classNames('bg-bolt-elements-background-depth-2', 'rounded-lg p-4 space-y-3')}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-4">
+        <div className={classNames('p-2 rounded-lg text-xl', 'bg-bolt-elements-background-depth-3', 'text-purple-500')}>
+          <div className="i-ph:magnifying-glass" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary">Context Selection</h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Rank the project files by their embeddings to pick the context for each request
+          </p>
+        </div>
+        <select
+          value={contextSelection}
+          onChange={(e) => setContextSelection(e.target.value as ContextSelectionMode)}
+          className={classNames(inputClassName, 'flex-none min-w-[200px]')}
+        >
+          {MODES.map((mode) => (
+            <option key={mode.value} value={mode.value} disabled={mode.value !== 'llm' && !current}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {current ? (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate text-bolt-elements-textPrimary">
+            {current.model} <span className="text-bolt-elements-textSecondary">({current.provider})</span>
+          </span>
+          <button
+            className="p-1 rounded-md bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+            onClick={removeModel}
+            title="Remove"
+          >
+            <div className="i-ph:trash" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <select value={provider} onChange={(e) => setProvider(e.target.value)} className={inputClassName}>
+            <option value="">Select an embedding provider</option>
+            {embeddingProviders.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <input
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            disabled={!provider}
+            placeholder={suggestions[0] ?? 'Embedding model'}
+            list="embedding-models"
+            className={inputClassName}
+          />
+          <datalist id="embedding-models">
+            {suggestions.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <button
+            onClick={saveModel}
+            disabled={!provider || !model.trim()}
+            className={classNames(
+              'px-3 py-2 rounded-lg text-sm',
+              'bg-purple-500 text-white hover:bg-purple-600',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+              'transition-colors',
+            )}
+          >
+            Use
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,11 +1,16 @@
 // Remove unused imports
 import React, { memo, useCallback } from 'react';
 import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
 import { Switch } from '~/components/ui/Switch';
 import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import { AUTO_FIX_MAX_ATTEMPTS } from '~/lib/stores/autofix';
+import { userPromptsStore } from '~/lib/stores/prompts';
+import { ContextSelection } from './ContextSelection';
+import { UserPrompts } from './UserPrompts';
 
 interface FeatureToggle {
   id: string;
@@ -117,7 +122,10 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    autoFixEnabled,
+    enableAutoFix,
   } = useSettings();
+  const userPrompts = useStore(userPromptsStore);
 
   // Enable features by default on first load
   React.useEffect(() => {
@@ -170,11 +178,17 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'autoFix': {
+          enableAutoFix(enabled);
+          toast.success(`Auto fix ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs, enableAutoFix],
   );
 
   const features = {
@@ -212,7 +226,17 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'autoFix',
+        title: 'Auto Fix',
+        description: 'Automatically ask Bolt to fix terminal and preview errors',
+        icon: 'i-ph:wrench',
+        enabled: autoFixEnabled,
+        beta: true,
+        tooltip: `Sends failing commands and preview errors back to the model, up to ${AUTO_FIX_MAX_ATTEMPTS} attempts in a row`,
+      },
+    ],
   };
 
   return (
@@ -287,9 +311,18 @@ export default function FeaturesTab() {
                 {x.label}
               </option>
             ))}
+            {userPrompts.map((prompt) => (
+              <option key={prompt.id} value={prompt.id}>
+                {prompt.label}
+              </option>
+            ))}
           </select>
         </div>
       </motion.div>
+
+      <UserPrompts />
+
+      {contextOptimizationEnabled && <ContextSelection />}
     </div>
   );
 }
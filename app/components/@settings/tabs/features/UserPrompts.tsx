@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { PROMPT_VARIABLES } from '~/lib/common/prompt-library';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { UserPrompt } from '~/lib/persistence';
+import {
+  createUserPrompt,
+  deleteUserPrompt,
+  duplicateUserPrompt,
+  getPromptContent,
+  updateUserPrompt,
+  userPromptsStore,
+} from '~/lib/stores/prompts';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'p-2 rounded-lg text-sm w-full',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const iconButtonClassName =
+  'p-1 rounded-md bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors';
+
+interface Draft {
+  // missing for a new prompt
+  id?: string;
+  label: string;
+  description: string;
+  content: string;
+}
+
+function PromptEditor({ draft, prompt, onClose }: { draft: Draft; prompt?: UserPrompt; onClose: () => void }) {
+  const [label, setLabel] = useState(draft.label);
+  const [description, setDescription] = useState(draft.description);
+  const [content, setContent] = useState(draft.content);
+
+  const save = async () => {
+    try {
+      if (draft.id) {
+        await updateUserPrompt(draft.id, { label: label.trim(), description: description.trim(), content });
+      } else {
+        await createUserPrompt(label.trim(), description.trim(), content);
+      }
+
+      toast.success(`Prompt ${label.trim()} saved`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the prompt');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Name" className={inputClassName} />
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        className={inputClassName}
+      />
+      {prompt && prompt.versions.length > 1 && (
+        <select
+          value=""
+          onChange={(e) => setContent(prompt.versions[Number(e.target.value)].content)}
+          className={inputClassName}
+        >
+          <option value="">Load an earlier version</option>
+          {prompt.versions.map((version, index) => (
+            <option key={version.timestamp} value={index}>
+              Version {index + 1} ({new Date(version.timestamp).toLocaleString()})
+            </option>
+          ))}
+        </select>
+      )}
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="You are Bolt, an expert AI assistant working in {{cwd}}..."
+        rows={12}
+        className={classNames(inputClassName, 'font-mono resize-y')}
+      />
+      <p className="text-xs text-bolt-elements-textSecondary">
+        Variables:{' '}
+        {Object.entries(PROMPT_VARIABLES).map(([name, variable], index) => (
+          <span key={name} title={variable.description}>
+            {index > 0 && ', '}
+            <code>{`{{${name}}}`}</code>
+          </span>
+        ))}
+      </p>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-2 rounded-lg text-sm text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={!label.trim() || !content.trim()}
+          className={classNames(
+            'px-3 py-2 rounded-lg text-sm',
+            'bg-purple-500 text-white hover:bg-purple-600',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+            'transition-colors',
+          )}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * System prompts written by the user, stored in the browser and selectable in the prompt library.
+ */
+export function UserPrompts() {
+  const prompts = useStore(userPromptsStore);
+  const { promptId, setPromptId } = useSettings();
+  const [draft, setDraft] = useState<Draft>();
+
+  const editedPrompt = prompts.find((prompt) => prompt.id === draft?.id);
+
+  const run = (action: () => Promise<unknown>, message: string) => {
+    action()
+      .then(() => toast.success(message))
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to update the prompts'));
+  };
+
+  return (
+    <motion.div
+      layout
+      className={classNames('bg-bolt-elements-background-depth-2', 'rounded-lg p-4 space-y-3')}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+    >
+      <div className="flex items-center gap-4">
+        <div className={classNames('p-2 rounded-lg text-xl', 'bg-bolt-elements-background-depth-3', 'text-purple-500')}>
+          <div className="i-ph:note-pencil" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary">Your Prompts</h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Write your own system prompts, every save keeps the previous version
+          </p>
+        </div>
+        <button
+          onClick={() => setDraft({ label: '', description: '', content: '' })}
+          disabled={!!draft}
+          className={classNames(
+            'px-3 py-2 rounded-lg text-sm',
+            'bg-purple-500 text-white hover:bg-purple-600',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+            'transition-colors',
+          )}
+        >
+          New Prompt
+        </button>
+      </div>
+
+      {prompts.map((prompt) => (
+        <div key={prompt.id} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate text-bolt-elements-textPrimary">
+            {prompt.label}{' '}
+            <span className="text-bolt-elements-textSecondary">
+              (v{prompt.versions.length}
+              {prompt.id === promptId && ', in use'})
+            </span>
+          </span>
+          {prompt.id !== promptId && (
+            <button className={iconButtonClassName} onClick={() => setPromptId(prompt.id)} title="Use">
+              <div className="i-ph:check-circle" />
+            </button>
+          )}
+          <button
+            className={iconButtonClassName}
+            onClick={() =>
+              setDraft({
+                id: prompt.id,
+                label: prompt.label,
+                description: prompt.description,
+                content: getPromptContent(prompt),
+              })
+            }
+            title="Edit"
+          >
+            <div className="i-ph:pencil-simple" />
+          </button>
+          <button
+            className={iconButtonClassName}
+            onClick={() => run(() => duplicateUserPrompt(prompt.id), `Prompt ${prompt.label} duplicated`)}
+            title="Duplicate"
+          >
+            <div className="i-ph:copy" />
+          </button>
+          <button
+            className={iconButtonClassName}
+            onClick={() => run(() => deleteUserPrompt(prompt.id), `Prompt ${prompt.label} deleted`)}
+            title="Delete"
+          >
+            <div className="i-ph:trash" />
+          </button>
+        </div>
+      ))}
+
+      {draft && (
+        <PromptEditor key={draft.id ?? 'new'} draft={draft} prompt={editedPrompt} onClose={() => setDraft(undefined)} />
+      )}
+    </motion.div>
+  );
+}
@@ -14,6 +14,9 @@ import { TbBrain, TbCloudComputing } from 'react-icons/tb';
 import { BiCodeBlock, BiChip } from 'react-icons/bi';
 import { FaCloud, FaBrain } from 'react-icons/fa';
 import type { IconType } from 'react-icons';
+import { FallbackModels } from './FallbackModels';
+import { UtilityModel } from './UtilityModel';
+import { CustomProviders } from '~/components/@settings/tabs/providers/custom/CustomProviders';
 
 // Add type for provider names to ensure type safety
 type ProviderName =
@@ -65,7 +68,7 @@ const CloudProvidersTab = () => {
   // Load and filter providers
   useEffect(() => {
     const newFilteredProviders = Object.entries(settings.providers || {})
-      .filter(([key]) => !['Ollama', 'LMStudio', 'OpenAILike'].includes(key))
+      .filter(([key, value]) => !['Ollama', 'LMStudio', 'OpenAILike'].includes(key) && !value.settings.custom)
       .map(([key, value]) => ({
         name: key,
         settings: value.settings,
@@ -298,6 +301,12 @@ const CloudProvidersTab = () => {
           ))}
         </div>
       </motion.div>
+
+      <CustomProviders local={false} />
+
+      <FallbackModels />
+
+      <UtilityModel />
     </div>
   );
 };
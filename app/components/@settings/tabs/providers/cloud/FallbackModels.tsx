@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { getModelKey, parseModelKey } from '~/lib/stores/settings';
+import { classNames } from '~/utils/classNames';
+
+const selectClassName = classNames(
+  'p-2 rounded-lg text-sm flex-1 min-w-0',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const iconButtonClassName = classNames(
+  'p-1 rounded-md bg-transparent text-bolt-elements-textSecondary',
+  'hover:text-bolt-elements-textPrimary disabled:opacity-30 disabled:cursor-not-allowed',
+  'transition-colors',
+);
+
+export function FallbackModels() {
+  const { fallbackModels, setFallbackModels, activeProviders } = useSettings();
+  const [modelList, setModelList] = useState<ModelInfo[]>([]);
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((response) => response.json())
+      .then((data) => setModelList((data as { modelList: ModelInfo[] }).modelList))
+      .catch((error) => console.error('Error fetching model list:', error));
+  }, []);
+
+  const providerModels = useMemo(
+    () => modelList.filter((m) => m.provider === provider && !fallbackModels.includes(getModelKey(provider, m.name))),
+    [modelList, provider, fallbackModels],
+  );
+
+  const addModel = () => {
+    if (!provider || !model) {
+      return;
+    }
+
+    setFallbackModels([...fallbackModels, getModelKey(provider, model)]);
+    setModel('');
+    toast.success(`${model} added to the fallback models`);
+  };
+
+  const moveModel = (index: number, offset: number) => {
+    const models = [...fallbackModels];
+    [models[index], models[index + offset]] = [models[index + offset], models[index]];
+    setFallbackModels(models);
+  };
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center gap-2">
+        <div
+          className={classNames(
+            'w-8 h-8 flex items-center justify-center rounded-lg',
+            'bg-bolt-elements-background-depth-3',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:arrows-clockwise w-5 h-5" />
+        </div>
+        <div>
+          <h4 className="text-md font-medium text-bolt-elements-textPrimary">Fallback Models</h4>
+          <p className="text-sm text-bolt-elements-textSecondary">
+            Answer with these models, in order, when the selected model errors or is rate-limited
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-lg bg-bolt-elements-background-depth-2 p-4 space-y-3">
+        {fallbackModels.length === 0 && (
+          <p className="text-sm text-bolt-elements-textTertiary">No fallback models, failed requests are not retried</p>
+        )}
+
+        {fallbackModels.map((key, index) => {
+          const entry = parseModelKey(key);
+
+          return (
+            <div key={key} className="flex items-center gap-2 text-sm">
+              <span className="w-5 text-bolt-elements-textTertiary">{index + 1}.</span>
+              <span className="flex-1 truncate text-bolt-elements-textPrimary">
+                {entry.model} <span className="text-bolt-elements-textSecondary">({entry.provider})</span>
+              </span>
+              <button
+                className={iconButtonClassName}
+                disabled={index === 0}
+                onClick={() => moveModel(index, -1)}
+                title="Move up"
+              >
+                <div className="i-ph:caret-up" />
+              </button>
+              <button
+                className={iconButtonClassName}
+                disabled={index === fallbackModels.length - 1}
+                onClick={() => moveModel(index, 1)}
+                title="Move down"
+              >
+                <div className="i-ph:caret-down" />
+              </button>
+              <button
+                className={iconButtonClassName}
+                onClick={() => setFallbackModels(fallbackModels.filter((entry) => entry !== key))}
+                title="Remove"
+              >
+                <div className="i-ph:trash" />
+              </button>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-2 pt-2">
+          <select
+            value={provider}
+            onChange={(e) => {
+              setProvider(e.target.value);
+              setModel('');
+            }}
+            className={selectClassName}
+          >
+            <option value="">Select a provider</option>
+            {activeProviders.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            disabled={!provider}
+            className={selectClassName}
+          >
+            <option value="">Select a model</option>
+            {providerModels.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addModel}
+            disabled={!provider || !model}
+            className={classNames(
+              'px-3 py-2 rounded-lg text-sm',
+              'bg-purple-500 text-white hover:bg-purple-600',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+              'transition-colors',
+            )}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
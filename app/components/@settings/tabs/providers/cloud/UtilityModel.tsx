@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { getModelKey, parseModelKey } from '~/lib/stores/settings';
+import { classNames } from '~/utils/classNames';
+
+const selectClassName = classNames(
+  'p-2 rounded-lg text-sm flex-1 min-w-0',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+export function UtilityModel() {
+  const { utilityModel, setUtilityModel, activeProviders } = useSettings();
+  const [modelList, setModelList] = useState<ModelInfo[]>([]);
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((response) => response.json())
+      .then((data) => setModelList((data as { modelList: ModelInfo[] }).modelList))
+      .catch((error) => console.error('Error fetching model list:', error));
+  }, []);
+
+  const providerModels = useMemo(() => modelList.filter((m) => m.provider === provider), [modelList, provider]);
+  const current = utilityModel ? parseModelKey(utilityModel) : undefined;
+
+  const saveModel = () => {
+    if (!provider || !model) {
+      return;
+    }
+
+    setUtilityModel(getModelKey(provider, model));
+    setModel('');
+    toast.success(`${model} runs the summaries, context selection and prompt enhancement`);
+  };
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center gap-2">
+        <div
+          className={classNames(
+            'w-8 h-8 flex items-center justify-center rounded-lg',
+            'bg-bolt-elements-background-depth-3',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:wrench w-5 h-5" />
+        </div>
+        <div>
+          <h4 className="text-md font-medium text-bolt-elements-textPrimary">Utility Model</h4>
+          <p className="text-sm text-bolt-elements-textSecondary">
+            A cheaper model for the chat summary, the context selection and the prompt enhancer
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-lg bg-bolt-elements-background-depth-2 p-4 space-y-3">
+        {current ? (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="flex-1 truncate text-bolt-elements-textPrimary">
+              {current.model} <span className="text-bolt-elements-textSecondary">({current.provider})</span>
+            </span>
+            <button
+              className="p-1 rounded-md bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+              onClick={() => setUtilityModel('')}
+              title="Remove"
+            >
+              <div className="i-ph:trash" />
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-bolt-elements-textTertiary">
+            No utility model, the selected model does everything
+          </p>
+        )}
+
+        <div className="flex items-center gap-2 pt-2">
+          <select
+            value={provider}
+            onChange={(e) => {
+              setProvider(e.target.value);
+              setModel('');
+            }}
+            className={selectClassName}
+          >
+            <option value="">Select a provider</option>
+            {activeProviders.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            disabled={!provider}
+            className={selectClassName}
+          >
+            <option value="">Select a model</option>
+            {providerModels.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={saveModel}
+            disabled={!provider || !model}
+            className={classNames(
+              'px-3 py-2 rounded-lg text-sm',
+              'bg-purple-500 text-white hover:bg-purple-600',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+              'transition-colors',
+            )}
+          >
+            Use
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import Cookies from 'js-cookie';
+import { Switch } from '~/components/ui/Switch';
+import { getApiKeysFromCookies } from '~/components/chat/APIKeyManager';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { IProviderConfig } from '~/types/model';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'w-full px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const iconButtonClassName = classNames(
+  'p-1 rounded-md bg-transparent text-bolt-elements-textSecondary',
+  'hover:text-bolt-elements-textPrimary transition-colors',
+);
+
+interface EndpointForm {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers: string;
+  models: string;
+}
+
+const EMPTY_FORM: EndpointForm = { name: '', baseUrl: '', apiKey: '', headers: '', models: '' };
+
+// headers are edited as `Name: value` lines
+function parseHeaders(text: string) {
+  const headers: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+function formatHeaders(headers: Record<string, string> = {}) {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+function parseModels(text: string) {
+  return text
+    .split(/[\n,]/)
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+function isValidUrl(url: string) {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function setApiKey(provider: string, apiKey?: string) {
+  const { [provider]: _previous, ...apiKeys } = getApiKeysFromCookies();
+  Cookies.set('apiKeys', JSON.stringify(apiKey ? { ...apiKeys, [provider]: apiKey } : apiKeys));
+}
+
+interface CustomProvidersProps {
+  // whether to list the endpoints running on the user's machine or the remote ones
+  local: boolean;
+}
+
+/**
+ * The OpenAI-compatible endpoints the user added, like a vLLM gateway or a LiteLLM proxy.
+ */
+export function CustomProviders({ local }: CustomProvidersProps) {
+  const { providers, updateProviderSettings, addCustomProvider, removeCustomProvider } = useSettings();
+  const [form, setForm] = useState<EndpointForm | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const endpoints = Object.values(providers)
+    .filter((provider) => provider.settings.custom && !!provider.settings.local === local)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const openForm = (provider?: IProviderConfig) => {
+    setEditing(provider?.name ?? null);
+    setForm(
+      provider
+        ? {
+            name: provider.name,
+            baseUrl: provider.settings.baseUrl ?? '',
+            apiKey: getApiKeysFromCookies()[provider.name] ?? '',
+            headers: formatHeaders(provider.settings.headers),
+            models: (provider.settings.models ?? []).join('\n'),
+          }
+        : EMPTY_FORM,
+    );
+  };
+
+  const saveForm = () => {
+    if (!form) {
+      return;
+    }
+
+    const name = form.name.trim();
+    const baseUrl = form.baseUrl.trim();
+
+    if (!name || name.includes('/')) {
+      toast.error('Enter a name without slashes');
+      return;
+    }
+
+    if (!editing && providers[name]) {
+      toast.error(`A provider named ${name} already exists`);
+      return;
+    }
+
+    if (!isValidUrl(baseUrl)) {
+      toast.error('Enter a valid base URL, like http://localhost:8000/v1');
+      return;
+    }
+
+    const settings = {
+      ...(editing ? providers[editing].settings : { enabled: true }),
+      baseUrl,
+      local,
+      headers: parseHeaders(form.headers),
+      models: parseModels(form.models),
+    };
+
+    if (editing) {
+      updateProviderSettings(name, settings);
+    } else {
+      addCustomProvider(name, settings);
+    }
+
+    setApiKey(name, form.apiKey.trim());
+    toast.success(`${name} ${editing ? 'updated' : 'added'}`);
+    setForm(null);
+  };
+
+  const removeEndpoint = (name: string) => {
+    removeCustomProvider(name);
+    setApiKey(name);
+    toast.success(`${name} removed`);
+  };
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div
+            className={classNames(
+              'w-8 h-8 flex items-center justify-center rounded-lg',
+              'bg-bolt-elements-background-depth-3',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:plugs-connected w-5 h-5" />
+          </div>
+          <div>
+            <h4 className="text-md font-medium text-bolt-elements-textPrimary">OpenAI-Compatible Endpoints</h4>
+            <p className="text-sm text-bolt-elements-textSecondary">
+              {local
+                ? 'Add servers running on your machine, like vLLM or llama.cpp'
+                : 'Add gateways and proxies that speak the OpenAI API, like LiteLLM'}
+            </p>
+          </div>
+        </div>
+        {!form && (
+          <button
+            onClick={() => openForm()}
+            className="px-3 py-2 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+          >
+            Add endpoint
+          </button>
+        )}
+      </div>
+
+      <div className="rounded-lg bg-bolt-elements-background-depth-2 p-4 space-y-3">
+        {endpoints.length === 0 && !form && (
+          <p className="text-sm text-bolt-elements-textTertiary">No endpoints added</p>
+        )}
+
+        {endpoints.map((provider) => (
+          <div key={provider.name} className="flex items-center gap-3 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="text-bolt-elements-textPrimary truncate">{provider.name}</div>
+              <div className="text-xs text-bolt-elements-textSecondary truncate">
+                {provider.settings.baseUrl} ·{' '}
+                {provider.settings.models?.length
+                  ? `${provider.settings.models.length} models`
+                  : 'models listed by the endpoint'}
+              </div>
+            </div>
+            <button className={iconButtonClassName} onClick={() => openForm(provider)} title="Edit">
+              <div className="i-ph:pencil-simple" />
+            </button>
+            <button className={iconButtonClassName} onClick={() => removeEndpoint(provider.name)} title="Remove">
+              <div className="i-ph:trash" />
+            </button>
+            <Switch
+              checked={provider.settings.enabled}
+              onCheckedChange={(enabled) => updateProviderSettings(provider.name, { ...provider.settings, enabled })}
+            />
+          </div>
+        ))}
+
+        {form && (
+          <div className="space-y-2 pt-2">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              disabled={!!editing}
+              placeholder="Name, like vLLM Gateway"
+              className={inputClassName}
+            />
+            <input
+              value={form.baseUrl}
+              onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+              placeholder="Base URL, like http://localhost:8000/v1"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={form.apiKey}
+              onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+              placeholder="API key (optional)"
+              className={inputClassName}
+            />
+            <textarea
+              value={form.headers}
+              onChange={(e) => setForm({ ...form, headers: e.target.value })}
+              placeholder={'Extra headers, one per line (optional)\nX-Team: platform'}
+              rows={2}
+              className={inputClassName}
+            />
+            <textarea
+              value={form.models}
+              onChange={(e) => setForm({ ...form, models: e.target.value })}
+              placeholder="Models, one per line (optional, listed from /models otherwise)"
+              rows={3}
+              className={inputClassName}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setForm(null)}
+                className="px-3 py-2 rounded-lg text-sm text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveForm}
+                className="px-3 py-2 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+              >
+                {editing ? 'Save' : 'Add'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -14,6 +14,7 @@ import { providerBaseUrlEnvKeys } from '~/utils/constants';
 import { useToast } from '~/components/ui/use-toast';
 import { Progress } from '~/components/ui/Progress';
 import OllamaModelInstaller from './OllamaModelInstaller';
+import { CustomProviders } from '~/components/@settings/tabs/providers/custom/CustomProviders';
 
 // Add type for provider names to ensure type safety
 type ProviderName = 'Ollama' | 'LMStudio' | 'OpenAILike';
@@ -747,6 +748,8 @@ export default function LocalProvidersTab() {
           </div>
         </div>
       </motion.div>
+
+      <CustomProviders local />
     </div>
   );
 }
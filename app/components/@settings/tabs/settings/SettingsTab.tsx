@@ -5,6 +5,7 @@ import { classNames } from '~/utils/classNames';
 import { Switch } from '~/components/ui/Switch';
 import type { UserProfile } from '~/components/@settings/core/types';
 import { isMac } from '~/utils/os';
+import { useSettings } from '~/lib/hooks/useSettings';
 
 // Helper to get modifier key symbols/text
 const getModifierSymbol = (modifier: string): string => {
@@ -22,6 +23,8 @@ const getModifierSymbol = (modifier: string): string => {
 
 export default function SettingsTab() {
   const [currentTimezone, setCurrentTimezone] = useState('');
+  const [newCommand, setNewCommand] = useState('');
+  const { actionApprovalEnabled, enableActionApproval, commandAllowlist, setCommandAllowlist } = useSettings();
   const [settings, setSettings] = useState<UserProfile>(() => {
     const saved = localStorage.getItem('bolt_user_profile');
     return saved
@@ -59,6 +62,17 @@ export default function SettingsTab() {
     }
   }, [settings]);
 
+  const addAllowedCommand = () => {
+    const command = newCommand.trim();
+
+    if (!command || commandAllowlist.includes(command)) {
+      return;
+    }
+
+    setCommandAllowlist([...commandAllowlist, command]);
+    setNewCommand('');
+  };
+
   return (
     <div className="space-y-4">
       {/* Language & Notifications */}
@@ -141,6 +155,82 @@ export default function SettingsTab() {
         </div>
       </motion.div>
 
+      {/* Action Approval */}
+      <motion.div
+        className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <div className="i-ph:shield-check-fill w-4 h-4 text-purple-500" />
+          <span className="text-sm font-medium text-bolt-elements-textPrimary">Action Approval</span>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-bolt-elements-textSecondary">
+            Ask before running commands, starting the app and applying Supabase migrations
+          </span>
+          <Switch
+            checked={actionApprovalEnabled}
+            onCheckedChange={(checked) => {
+              enableActionApproval(checked);
+              toast.success(`Action approval ${checked ? 'enabled' : 'disabled'}`);
+            }}
+          />
+        </div>
+
+        {actionApprovalEnabled && (
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <div className="i-ph:list-checks-fill w-4 h-4 text-bolt-elements-textSecondary" />
+              <label className="block text-sm text-bolt-elements-textSecondary">Commands that run automatically</label>
+            </div>
+            <div className="space-y-2">
+              {commandAllowlist.map((command) => (
+                <div
+                  key={command}
+                  className="flex items-center justify-between p-2 rounded-lg bg-[#FAFAFA] dark:bg-[#1A1A1A]"
+                >
+                  <code className="text-xs text-bolt-elements-textPrimary">{command}</code>
+                  <button
+                    onClick={() => setCommandAllowlist(commandAllowlist.filter((entry) => entry !== command))}
+                    className="i-ph:trash w-4 h-4 text-bolt-elements-textSecondary hover:text-red-500"
+                    title="Remove command"
+                  />
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <input
+                  value={newCommand}
+                  onChange={(e) => setNewCommand(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      addAllowedCommand();
+                    }
+                  }}
+                  placeholder="e.g. npm run build or npx --yes *"
+                  className={classNames(
+                    'flex-1 px-3 py-2 rounded-lg text-sm',
+                    'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+                    'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+                    'text-bolt-elements-textPrimary',
+                    'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                    'transition-all duration-200',
+                  )}
+                />
+                <button
+                  onClick={addAllowedCommand}
+                  className="px-3 py-2 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </motion.div>
+
       {/* Timezone */}
       <motion.div
         className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import {
+  db,
+  getAll,
+  getAllUsage,
+  getMonthlyUsage,
+  getUsageByChat,
+  summarizeUsage,
+  type UsageRecord,
+  type UsageSummary,
+} from '~/lib/persistence';
+import { formatCost } from '~/utils/formatCost';
+
+// the chats with the highest cost that are listed
+const MAX_CHATS = 20;
+
+function formatSummary(summary: UsageSummary) {
+  return `${formatCost(summary.cost)}${summary.incomplete ? '+' : ''}`;
+}
+
+function formatMonth(month: string) {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+}
+
+export default function UsageTab() {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [descriptions, setDescriptions] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    if (!db) {
+      return;
+    }
+
+    Promise.all([getAllUsage(db), getAll(db)])
+      .then(([usage, chats]) => {
+        setRecords(usage);
+        setDescriptions(new Map(chats.map((chat) => [chat.id, chat.description || 'Untitled chat'])));
+      })
+      .catch((error) => toast.error(`Failed to load usage: ${error.message}`));
+  }, []);
+
+  const total = summarizeUsage(records.flatMap((record) => record.models));
+  const months = getMonthlyUsage(records);
+  const chats = [...getUsageByChat(records)].sort(([, a], [, b]) => b.cost - a.cost).slice(0, MAX_CHATS);
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        className="bg-white dark:bg-[#0A0A0A] rounded-lg p-6 border border-[#E5E5E5] dark:border-[#1A1A1A]"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <div className="i-ph:currency-dollar-duotone w-5 h-5 text-purple-500" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Monthly Spend</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {formatSummary(total)} in total for {total.promptTokens + total.completionTokens} tokens.
+          {total.incomplete && ' Costs marked with + include models without known pricing.'}
+        </p>
+        {months.length === 0 && <p className="text-sm text-gray-500">No usage recorded yet</p>}
+        <div className="space-y-4">
+          {months.map(({ month, providers, ...summary }) => (
+            <div key={month}>
+              <div className="flex justify-between text-sm font-medium text-gray-900 dark:text-white mb-1">
+                <span>{formatMonth(month)}</span>
+                <span>{formatSummary(summary)}</span>
+              </div>
+              {providers.map((provider) => (
+                <div
+                  key={provider.provider}
+                  className="flex justify-between text-sm text-gray-600 dark:text-gray-400 pl-4 py-0.5"
+                >
+                  <span>{provider.provider}</span>
+                  <span>
+                    {provider.promptTokens + provider.completionTokens} tokens · {formatSummary(provider)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+
+      <motion.div
+        className="bg-white dark:bg-[#0A0A0A] rounded-lg p-6 border border-[#E5E5E5] dark:border-[#1A1A1A]"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <div className="i-ph:chats-duotone w-5 h-5 text-purple-500" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Chats</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">The chats with the highest cost.</p>
+        {chats.length === 0 && <p className="text-sm text-gray-500">No usage recorded yet</p>}
+        {chats.map(([chatId, summary]) => (
+          <div key={chatId} className="flex justify-between gap-4 text-sm text-gray-600 dark:text-gray-400 py-0.5">
+            <span className="truncate">{descriptions.get(chatId) ?? 'Deleted chat'}</span>
+            <span className="shrink-0">
+              {summary.promptTokens + summary.completionTokens} tokens · {formatSummary(summary)}
+            </span>
+          </div>
+        ))}
+      </motion.div>
+    </div>
+  );
+}
@@ -36,10 +36,17 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
   const actions = useStore(
     computed(artifact.runner.actions, (actions) => {
       // Filter out Supabase actions except for migrations
-      return Object.values(actions).filter((action) => {
-        // Exclude actions with type 'supabase' or actions that contain 'supabase' in their content
-        return action.type !== 'supabase' && !(action.type === 'shell' && action.content?.includes('supabase'));
-      });
+      return Object.entries(actions)
+        .filter(([, action]) => {
+          // actions waiting for an approval always have to be visible so they can be run or skipped
+          if (action.status === 'awaiting') {
+            return true;
+          }
+
+          // Exclude actions with type 'supabase' or actions that contain 'supabase' in their content
+          return action.type !== 'supabase' && !(action.type === 'shell' && action.content?.includes('supabase'));
+        })
+        .map(([actionId, action]) => ({ ...action, actionId }));
     }),
   );
 
@@ -119,7 +126,11 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
             <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
 
             <div className="p-5 text-left bg-bolt-elements-actions-background">
-              <ActionList actions={actions} />
+              <ActionList
+                actions={actions}
+                onApprove={(actionId, content) => artifact.runner.approveAction(actionId, content)}
+                onSkip={(actionId) => artifact.runner.skipAction(actionId)}
+              />
             </div>
           </motion.div>
         )}
@@ -148,7 +159,9 @@ function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
 }
 
 interface ActionListProps {
-  actions: ActionState[];
+  actions: Array<ActionState & { actionId: string }>;
+  onApprove: (actionId: string, content?: string) => void;
+  onSkip: (actionId: string) => void;
 }
 
 const actionVariants = {
@@ -164,7 +177,50 @@ function openArtifactInWorkbench(filePath: any) {
   workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
 }
 
-const ActionList = memo(({ actions }: ActionListProps) => {
+interface ApprovalControlsProps {
+  content: string;
+  editable?: boolean;
+  onApprove: (content?: string) => void;
+  onSkip: () => void;
+}
+
+function ApprovalControls({ content, editable = true, onApprove, onSkip }: ApprovalControlsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedContent, setEditedContent] = useState(content);
+
+  const buttonClassName =
+    'px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover';
+  const primaryButtonClassName =
+    'px-2 py-1 rounded-md text-xs bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover';
+
+  return (
+    <div className="mt-1.5 flex flex-col gap-1.5">
+      {isEditing && (
+        <textarea
+          value={editedContent}
+          onChange={(event) => setEditedContent(event.target.value)}
+          rows={Math.min(editedContent.split('\n').length, 8)}
+          className="w-full p-2 rounded-md text-xs font-mono bg-bolt-elements-background-depth-3 text-bolt-elements-textPrimary border border-bolt-elements-borderColor focus:outline-none"
+        />
+      )}
+      <div className="flex gap-1.5">
+        <button className={primaryButtonClassName} onClick={() => onApprove(isEditing ? editedContent : undefined)}>
+          Run
+        </button>
+        <button className={buttonClassName} onClick={onSkip}>
+          Skip
+        </button>
+        {editable && !isEditing && (
+          <button className={buttonClassName} onClick={() => setIsEditing(true)}>
+            Edit
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const ActionList = memo(({ actions, onApprove, onSkip }: ActionListProps) => {
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
       <ul className="list-none space-y-2.5">
@@ -195,6 +251,8 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     </>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'awaiting' ? (
+                    <div className="i-ph:hand-duotone"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
@@ -211,6 +269,52 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                       {action.filePath}
                     </code>
                   </div>
+                ) : type === 'edit' ? (
+                  <div>
+                    Edit{' '}
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.filePath)}
+                    >
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'delete' ? (
+                  <div>
+                    Delete{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'rename' || type === 'move' ? (
+                  <div>
+                    {type === 'rename' ? 'Rename' : 'Move'}{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>{' '}
+                    to{' '}
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.newFilePath)}
+                    >
+                      {action.newFilePath}
+                    </code>
+                  </div>
+                ) : type === 'read' ? (
+                  <div>
+                    {action.operation === 'list' ? 'List' : action.operation === 'grep' ? 'Search' : 'Read'}{' '}
+                    {action.operation === 'grep' && (
+                      <>
+                        <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                          {action.pattern}
+                        </code>{' '}
+                        in{' '}
+                      </>
+                    )}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.path || '/'}
+                    </code>
+                  </div>
                 ) : type === 'shell' ? (
                   <div className="flex items-center w-full min-h-[28px]">
                     <span className="flex-1">Run command</span>
@@ -225,6 +329,13 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                   >
                     <span className="flex-1">Start Application</span>
                   </a>
+                ) : type === 'supabase' && action.operation === 'migration' ? (
+                  <div>
+                    Apply migration{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>
+                  </div>
                 ) : null}
               </div>
               {(type === 'shell' || type === 'start') && (
@@ -235,6 +346,25 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                   code={content}
                 />
               )}
+              {status === 'awaiting' && (
+                <ApprovalControls
+                  content={content}
+                  editable={type !== 'delete'}
+                  onApprove={(editedContent) => onApprove(action.actionId, editedContent)}
+                  onSkip={() => onSkip(action.actionId)}
+                />
+              )}
+              {(type === 'edit' || type === 'delete' || type === 'rename' || type === 'move') &&
+                status === 'failed' && (
+                  <pre
+                    className={classNames(
+                      'mt-1 p-2 text-xs whitespace-pre-wrap rounded-md bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary',
+                      { 'mb-3.5': !isLast },
+                    )}
+                  >
+                    {action.error}
+                  </pre>
+                )}
             </motion.li>
           );
         })}
@@ -248,6 +378,9 @@ function getIconColor(status: ActionState['status']) {
     case 'pending': {
       return 'text-bolt-elements-textTertiary';
     }
+    case 'awaiting': {
+      return 'text-bolt-elements-item-contentAccent';
+    }
     case 'running': {
       return 'text-bolt-elements-loader-progress';
     }
@@ -2,12 +2,24 @@ import { memo } from 'react';
 import { Markdown } from './Markdown';
 import type { JSONValue } from 'ai';
 import Popover from '~/components/ui/Popover';
+import WithTooltip from '~/components/ui/Tooltip';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { WORK_DIR } from '~/utils/constants';
+import type { ModelAnnotation, ReasoningAnnotation, UsageAnnotation } from '~/types/context';
+import { formatCost } from '~/utils/formatCost';
+import { parsePlan, removePlanMarkup, type Plan } from '~/lib/common/plan';
+import { PlanChecklist } from './PlanChecklist';
+import { ReasoningPanel } from './ReasoningPanel';
 
 interface AssistantMessageProps {
   content: string;
   annotations?: JSONValue[];
+
+  // the native reasoning of the model, kept out of the content and the history sent back to the model
+  reasoning?: string;
+  thinking?: boolean;
+  onRestore?: () => void;
+  onApprovePlan?: (plan: Plan) => void;
 }
 
 function openArtifactInWorkbench(filePath: string) {
@@ -34,7 +46,9 @@ function normalizedFilePath(path: string) {
   return normalizedPath;
 }
 
-export const AssistantMessage = memo(({ content, annotations }: AssistantMessageProps) => {
+export const AssistantMessage = memo((props: AssistantMessageProps) => {
+  const { content, annotations, reasoning, thinking = false, onRestore, onApprovePlan } = props;
+
   const filteredAnnotations = (annotations?.filter(
     (annotation: JSONValue) => annotation && typeof annotation === 'object' && Object.keys(annotation).includes('type'),
   ) || []) as { type: string; value: any } & { [key: string]: any }[];
@@ -51,11 +65,25 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
     codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
   }
 
-  const usage: {
-    completionTokens: number;
-    promptTokens: number;
-    totalTokens: number;
-  } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+  const usage: UsageAnnotation['value'] | undefined = filteredAnnotations.find(
+    (annotation) => annotation.type === 'usage',
+  )?.value;
+
+  // the model changes again when a fallback model answered later segments of the response
+  const answeredBy = filteredAnnotations.filter((annotation) => annotation.type === 'model').pop() as
+    | ModelAnnotation
+    | undefined;
+
+  // each block of reasoning is timed on its own, responses from before the timing have none
+  const reasoningAnnotations = filteredAnnotations.filter(
+    (annotation) => annotation.type === 'reasoning',
+  ) as ReasoningAnnotation[];
+  const reasoningDuration =
+    reasoningAnnotations.length > 0
+      ? reasoningAnnotations.reduce((total, annotation) => total + annotation.duration, 0)
+      : undefined;
+
+  const parsedPlan = parsePlan(content);
 
   return (
     <div className="overflow-hidden w-full">
@@ -103,11 +131,35 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
           {usage && (
             <div>
               Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
+              {!!usage.cacheReadTokens && <> · {usage.cacheReadTokens} cached</>}
+              {!!usage.cacheWriteTokens && <> · {usage.cacheWriteTokens} written to cache</>}
+              {usage.cost !== undefined && <> · {formatCost(usage.cost)}</>}
             </div>
           )}
+          {answeredBy?.fallback && (
+            <WithTooltip tooltip="The selected model failed, so a fallback model answered">
+              <div className="flex items-center gap-1">
+                <div className="i-ph:arrows-clockwise" />
+                {answeredBy.model} ({answeredBy.provider})
+              </div>
+            </WithTooltip>
+          )}
+          {onRestore && (
+            <WithTooltip tooltip="Restore the project and the chat to this message">
+              <button
+                onClick={onRestore}
+                className="ml-auto flex items-center gap-1 bg-transparent text-xs hover:text-bolt-elements-textPrimary transition-colors"
+              >
+                <div className="i-ph:clock-counter-clockwise" />
+                Restore to here
+              </button>
+            </WithTooltip>
+          )}
         </div>
       </>
-      <Markdown html>{content}</Markdown>
+      {reasoning && <ReasoningPanel reasoning={reasoning} duration={reasoningDuration} thinking={thinking} />}
+      <Markdown html>{removePlanMarkup(content)}</Markdown>
+      {parsedPlan && <PlanChecklist plan={parsedPlan.plan} complete={parsedPlan.complete} onApprove={onApprovePlan} />}
     </div>
   );
 });
@@ -0,0 +1,108 @@
+import { useStore } from '@nanostores/react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useState } from 'react';
+import { AUTO_FIX_MAX_ATTEMPTS, autoFixStore, resetAutoFix, type AutoFixStep } from '~/lib/stores/autofix';
+import { classNames } from '~/utils/classNames';
+
+const statusTitles = {
+  fixing: 'Fixing errors',
+  resolved: 'Errors fixed',
+  exhausted: 'Could not fix the errors automatically',
+  stopped: 'Auto fix stopped',
+};
+
+export function AutoFixSteps() {
+  const { status, steps } = useStore(autoFixStore);
+  const [expanded, setExpanded] = useState(false);
+
+  if (status === 'idle' || steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 mb-2 overflow-hidden"
+    >
+      <div className="flex items-center">
+        <button
+          className="flex flex-1 items-center gap-2 p-3 text-left text-sm bg-transparent"
+          onClick={() => setExpanded(!expanded)}
+        >
+          <div
+            className={classNames('text-lg', {
+              'i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress': status === 'fixing',
+              'i-ph:check-circle-duotone text-bolt-elements-icon-success': status === 'resolved',
+              'i-ph:warning-duotone text-bolt-elements-button-danger-text': status === 'exhausted',
+              'i-ph:stop-circle-duotone text-bolt-elements-textSecondary': status === 'stopped',
+            })}
+          ></div>
+          <span className="flex-1 font-medium text-bolt-elements-textPrimary">{statusTitles[status]}</span>
+          <span className="text-xs text-bolt-elements-textSecondary">
+            Attempt {steps.length}/{AUTO_FIX_MAX_ATTEMPTS}
+          </span>
+          <div className={expanded ? 'i-ph:caret-up-bold' : 'i-ph:caret-down-bold'}></div>
+        </button>
+        {status !== 'fixing' && (
+          <button
+            className="p-3 bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+            onClick={resetAutoFix}
+            title="Dismiss"
+          >
+            <div className="i-ph:x"></div>
+          </button>
+        )}
+      </div>
+      <AnimatePresence>
+        {expanded && (
+          <motion.ul
+            initial={{ height: 0 }}
+            animate={{ height: 'auto' }}
+            exit={{ height: 0 }}
+            transition={{ duration: 0.15 }}
+            className="list-none border-t border-bolt-elements-borderColor"
+          >
+            {steps.map((step) => (
+              <AutoFixStepItem key={step.attempt} step={step} />
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
+
+function AutoFixStepItem({ step }: { step: AutoFixStep }) {
+  const [expanded, setExpanded] = useState(false);
+  const { alert } = step;
+
+  return (
+    <li className="px-3 py-2 text-sm">
+      <button
+        className="flex w-full items-center gap-2 text-left bg-transparent"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div
+          className={classNames({
+            'i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress': step.status === 'fixing',
+            'i-ph:check text-bolt-elements-icon-success': step.status === 'fixed',
+            'i-ph:x text-bolt-elements-icon-error': step.status === 'failed',
+          })}
+        ></div>
+        <span className="flex-1 truncate text-bolt-elements-textPrimary">
+          Attempt {step.attempt}: {alert.description || alert.title}
+        </span>
+        <div
+          className={classNames('text-bolt-elements-textSecondary', expanded ? 'i-ph:caret-up' : 'i-ph:caret-down')}
+        ></div>
+      </button>
+      {expanded && (
+        <pre className="mt-2 p-2 text-xs whitespace-pre-wrap max-h-40 overflow-auto rounded-md bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary">
+          {alert.content}
+        </pre>
+      )}
+    </li>
+  );
+}
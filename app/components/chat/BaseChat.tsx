@@ -12,6 +12,7 @@ import { classNames } from '~/utils/classNames';
 import { PROVIDER_LIST } from '~/utils/constants';
 import { Messages } from './Messages.client';
 import { SendButton } from './SendButton.client';
+import { ContextUsageMeter } from './ContextUsageMeter';
 import { APIKeyManager, getApiKeysFromCookies } from './APIKeyManager';
 import Cookies from 'js-cookie';
 import * as Tooltip from '@radix-ui/react-tooltip';
@@ -31,9 +32,15 @@ import { toast } from 'react-toastify';
 import StarterTemplates from './StarterTemplates';
 import type { ActionAlert, SupabaseAlert } from '~/types/actions';
 import ChatAlert from './ChatAlert';
+import { AutoFixSteps } from './AutoFixSteps';
+import { ToolCallingToggle } from './ToolCallingToggle';
+import { ThinkingBudgetSelect } from './ThinkingBudgetSelect';
+import { PlanModeToggle } from './PlanModeToggle';
 import type { ModelInfo } from '~/lib/modules/llm/types';
+import { hasCapability } from '~/lib/modules/llm/capabilities';
 import ProgressCompilation from './ProgressCompilation';
 import type { ProgressAnnotation } from '~/types/context';
+import type { Plan } from '~/lib/common/plan';
 import type { ActionRunner } from '~/lib/runtime/action-runner';
 import { LOCAL_PROVIDERS } from '~/lib/stores/settings';
 import { SupabaseChatAlert } from '~/components/chat/SupabaseAlert';
@@ -58,6 +65,7 @@ interface BaseChatProps {
   setModel?: (model: string) => void;
   provider?: ProviderInfo;
   setProvider?: (provider: ProviderInfo) => void;
+  setModelInfo?: (modelInfo: ModelInfo | undefined) => void;
   providerList?: ProviderInfo[];
   handleStop?: () => void;
   sendMessage?: (event: React.UIEvent, messageInput?: string) => void;
@@ -75,6 +83,7 @@ interface BaseChatProps {
   clearSupabaseAlert?: () => void;
   data?: JSONValue[] | undefined;
   actionRunner?: ActionRunner;
+  approvePlan?: (plan: Plan) => void;
 }
 
 export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
@@ -91,6 +100,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       setModel,
       provider,
       setProvider,
+      setModelInfo,
       providerList,
       input = '',
       enhancingPrompt,
@@ -113,6 +123,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       clearSupabaseAlert,
       data,
       actionRunner,
+      approvePlan,
     },
     ref,
   ) => {
@@ -125,6 +136,13 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
     const [transcript, setTranscript] = useState('');
     const [isModelLoading, setIsModelLoading] = useState<string | undefined>('all');
     const [progressAnnotations, setProgressAnnotations] = useState<ProgressAnnotation[]>([]);
+    const modelInfo = modelList.find((m) => m.name === model && m.provider === provider?.name);
+    const supportsVision = hasCapability(modelInfo, 'vision');
+
+    useEffect(() => {
+      setModelInfo?.(modelInfo);
+    }, [modelInfo]);
+
     useEffect(() => {
       if (data) {
         const progressList = data.filter(
@@ -260,7 +278,21 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       }
     };
 
+    const rejectImages = () => {
+      if (supportsVision) {
+        return false;
+      }
+
+      toast.error(`${modelInfo?.label ?? model} can't read images. Pick a model with vision to attach them.`);
+
+      return true;
+    };
+
     const handleFileUpload = () => {
+      if (rejectImages()) {
+        return;
+      }
+
       const input = document.createElement('input');
       input.type = 'file';
       input.accept = 'image/*';
@@ -294,6 +326,10 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
         if (item.type.startsWith('image/')) {
           e.preventDefault();
 
+          if (rejectImages()) {
+            break;
+          }
+
           const file = item.getAsFile();
 
           if (file) {
@@ -345,6 +381,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       className="flex flex-col w-full flex-1 max-w-chat pb-6 mx-auto z-1"
                       messages={messages}
                       isStreaming={isStreaming}
+                      onApprovePlan={approvePlan}
                     />
                   ) : null;
                 }}
@@ -365,6 +402,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                 })}
               >
                 <div className="bg-bolt-elements-background-depth-2">
+                  <AutoFixSteps />
                   {actionAlert && (
                     <ChatAlert
                       alert={actionAlert}
@@ -440,6 +478,12 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                                 }}
                               />
                             )}
+                          {provider && model && hasCapability(modelInfo, 'toolCalling') && (
+                            <ToolCallingToggle provider={provider} model={model} />
+                          )}
+                          {provider && model && modelInfo && hasCapability(modelInfo, 'reasoning') && (
+                            <ThinkingBudgetSelect provider={provider} model={model} />
+                          )}
                         </div>
                       )}
                     </ClientOnly>
@@ -491,6 +535,11 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                         e.currentTarget.style.border = '1px solid var(--bolt-elements-borderColor)';
 
                         const files = Array.from(e.dataTransfer.files);
+
+                        if (files.some((file) => file.type.startsWith('image/')) && rejectImages()) {
+                          return;
+                        }
+
                         files.forEach((file) => {
                           if (file.type.startsWith('image/')) {
                             const reader = new FileReader();
@@ -539,26 +588,33 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                     />
                     <ClientOnly>
                       {() => (
-                        <SendButton
-                          show={input.length > 0 || isStreaming || uploadedFiles.length > 0}
-                          isStreaming={isStreaming}
-                          disabled={!providerList || providerList.length === 0}
-                          onClick={(event) => {
-                            if (isStreaming) {
-                              handleStop?.();
-                              return;
-                            }
-
-                            if (input.length > 0 || uploadedFiles.length > 0) {
-                              handleSendMessage?.(event);
-                            }
-                          }}
-                        />
+                        <>
+                          <SendButton
+                            show={input.length > 0 || isStreaming || uploadedFiles.length > 0}
+                            isStreaming={isStreaming}
+                            disabled={!providerList || providerList.length === 0}
+                            onClick={(event) => {
+                              if (isStreaming) {
+                                handleStop?.();
+                                return;
+                              }
+
+                              if (input.length > 0 || uploadedFiles.length > 0) {
+                                handleSendMessage?.(event);
+                              }
+                            }}
+                          />
+                          <ContextUsageMeter messages={messages} />
+                        </>
                       )}
                     </ClientOnly>
                     <div className="flex justify-between items-center text-sm p-4 pt-2">
                       <div className="flex gap-1 items-center">
-                        <IconButton title="Upload file" className="transition-all" onClick={() => handleFileUpload()}>
+                        <IconButton
+                          title={supportsVision ? 'Upload file' : "This model can't read images"}
+                          className={classNames('transition-all', { 'opacity-50': !supportsVision })}
+                          onClick={() => handleFileUpload()}
+                        >
                           <div className="i-ph:paperclip text-xl"></div>
                         </IconButton>
                         <IconButton
@@ -577,6 +633,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                           )}
                         </IconButton>
 
+                        <ClientOnly>{() => <PlanModeToggle disabled={isStreaming} />}</ClientOnly>
                         <SpeechRecognitionButton
                           isListening={isListening}
                           onStart={startListening}
@@ -9,8 +9,13 @@ import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
+import { useAutoFix } from '~/lib/hooks/useAutoFix';
 import { description, useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
+import { parseModelKey, providersStore } from '~/lib/stores/settings';
+import { hasCapability } from '~/lib/modules/llm/capabilities';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { resetAutoFix, stopAutoFix } from '~/lib/stores/autofix';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
@@ -27,6 +32,10 @@ import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
 import { filesToArtifacts } from '~/utils/fileUtils';
 import { supabaseConnection } from '~/lib/stores/supabase';
+import { rankContextFiles } from '~/lib/stores/embeddings';
+import { getPromptContent, isUserPrompt, userPromptsStore } from '~/lib/stores/prompts';
+import { resumableFetch } from '~/lib/api/chat-stream';
+import { formatPlan, type Plan } from '~/lib/common/plan';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -129,7 +138,20 @@ export const ChatImpl = memo(
       (project) => project.id === supabaseConn.selectedProjectId,
     );
     const supabaseAlert = useStore(workbenchStore.supabaseAlert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const {
+      activeProviders,
+      promptId,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      contextSelection,
+      isToolCallingEnabled,
+      fallbackModels,
+      utilityModel,
+      planModeEnabled,
+      getThinkingBudget,
+    } = useSettings();
+    const userPrompts = useStore(userPromptsStore);
+    const userPrompt = userPrompts.find((prompt) => prompt.id === promptId);
 
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -137,9 +159,13 @@ export const ChatImpl = memo(
     });
     const [provider, setProvider] = useState(() => {
       const savedProvider = Cookies.get('selectedProvider');
-      return (PROVIDER_LIST.find((p) => p.name === savedProvider) || DEFAULT_PROVIDER) as ProviderInfo;
+      return (PROVIDER_LIST.find((p) => p.name === savedProvider) ||
+        (savedProvider && providersStore.get()[savedProvider]) ||
+        DEFAULT_PROVIDER) as ProviderInfo;
     });
 
+    const [modelInfo, setModelInfo] = useState<ModelInfo>();
+
     const { showChat } = useStore(chatStore);
 
     const [animationScope, animate] = useAnimate();
@@ -161,11 +187,21 @@ export const ChatImpl = memo(
       setData,
     } = useChat({
       api: '/api/chat',
+      fetch: resumableFetch,
       body: {
         apiKeys,
         files,
-        promptId,
+
+        // until the user prompts are loaded, the default prompt is used
+        promptId: isUserPrompt(promptId) && !userPrompt ? 'default' : promptId,
+        promptTemplate: userPrompt && getPromptContent(userPrompt),
         contextOptimization: contextOptimizationEnabled,
+        contextSelection,
+        toolCalling: isToolCallingEnabled(provider.name, model) && hasCapability(modelInfo, 'toolCalling'),
+        fallbackModels: fallbackModels.map(parseModelKey),
+        utilityModel: utilityModel ? parseModelKey(utilityModel) : undefined,
+        chatMode: planModeEnabled ? 'plan' : 'build',
+        thinkingBudget: hasCapability(modelInfo, 'reasoning') ? getThinkingBudget(provider.name, model) : undefined,
         supabase: {
           isConnected: supabaseConn.isConnected,
           hasSelectedProject: !!selectedProject,
@@ -259,6 +295,7 @@ export const ChatImpl = memo(
       stop();
       chatStore.setKey('aborted', true);
       workbenchStore.abortAllActions();
+      stopAutoFix();
 
       logStore.logProvider('Chat response aborted', {
         component: 'Chat',
@@ -308,6 +345,14 @@ export const ChatImpl = memo(
         return;
       }
 
+      if (imageDataList.length > 0 && !hasCapability(modelInfo, 'vision')) {
+        toast.error(`${modelInfo?.label ?? model} can't read images. Remove them or pick a model with vision.`);
+        return;
+      }
+
+      // a message from the user starts a new retry budget for automatic fixes
+      resetAutoFix();
+
       runAnimation();
 
       if (!chatStarted) {
@@ -414,40 +459,47 @@ export const ChatImpl = memo(
       }
 
       const modifiedFiles = workbenchStore.getModifiedFiles();
+      const rankedFiles = await rankContextFiles(messageContent);
 
       chatStore.setKey('aborted', false);
 
       if (modifiedFiles !== undefined) {
         const userUpdateArtifact = filesToArtifacts(modifiedFiles, `${Date.now()}`);
-        append({
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${messageContent}`,
-            },
-            ...imageDataList.map((imageData) => ({
-              type: 'image',
-              image: imageData,
-            })),
-          ] as any,
-        });
+        append(
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${messageContent}`,
+              },
+              ...imageDataList.map((imageData) => ({
+                type: 'image',
+                image: imageData,
+              })),
+            ] as any,
+          },
+          { body: { rankedFiles } },
+        );
 
         workbenchStore.resetAllFileModifications();
       } else {
-        append({
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`,
-            },
-            ...imageDataList.map((imageData) => ({
-              type: 'image',
-              image: imageData,
-            })),
-          ] as any,
-        });
+        append(
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`,
+              },
+              ...imageDataList.map((imageData) => ({
+                type: 'image',
+                image: imageData,
+              })),
+            ] as any,
+          },
+          { body: { rankedFiles } },
+        );
       }
 
       setInput('');
@@ -461,6 +513,40 @@ export const ChatImpl = memo(
       textareaRef.current?.blur();
     };
 
+    /**
+     * Sends a fix request or an approved plan without touching the input, the user might be typing while it
+     * is sent. Both are built right away, also in plan mode.
+     */
+    const sendFixMessage = useCallback(
+      async (messageContent: string, body?: Record<string, unknown>) => {
+        const modifiedFiles = workbenchStore.getModifiedFiles();
+        const userUpdateArtifact = modifiedFiles !== undefined ? filesToArtifacts(modifiedFiles, `${Date.now()}`) : '';
+        const rankedFiles = await rankContextFiles(messageContent);
+
+        chatStore.setKey('aborted', false);
+
+        append(
+          {
+            role: 'user',
+            content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${messageContent}`,
+          },
+          { body: { rankedFiles, chatMode: 'build', ...body } },
+        );
+
+        if (modifiedFiles !== undefined) {
+          workbenchStore.resetAllFileModifications();
+        }
+      },
+      [append, model, provider.name],
+    );
+
+    useAutoFix({ alert: actionAlert, isLoading, sendFixMessage });
+
+    const approvePlan = (plan: Plan) => {
+      resetAutoFix();
+      sendFixMessage(`Build the approved plan.\n\n${formatPlan(plan)}`, { plan });
+    };
+
     /**
      * Handles the change event for the textarea and updates the input state.
      * @param event - The change event from the textarea.
@@ -519,6 +605,7 @@ export const ChatImpl = memo(
         setModel={handleModelChange}
         provider={provider}
         setProvider={handleProviderChange}
+        setModelInfo={setModelInfo}
         providerList={activeProviders}
         messageRef={messageRef}
         scrollRef={scrollRef}
@@ -561,6 +648,7 @@ export const ChatImpl = memo(
         supabaseAlert={supabaseAlert}
         clearSupabaseAlert={() => workbenchStore.clearSupabaseAlert()}
         data={chatData}
+        approvePlan={approvePlan}
       />
     );
   },
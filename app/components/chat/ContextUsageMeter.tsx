@@ -0,0 +1,95 @@
+import type { Message } from 'ai';
+import WithTooltip from '~/components/ui/Tooltip';
+import type { TokenBudgetAnnotation } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+interface ContextUsageMeterProps {
+  messages?: Message[];
+}
+
+const RADIUS = 7;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+function getTokenBudget(messages: Message[] = []) {
+  const lastAssistantMessage = messages.filter((message) => message.role === 'assistant').pop();
+
+  return lastAssistantMessage?.annotations
+    ?.filter(
+      (annotation): annotation is TokenBudgetAnnotation =>
+        !!annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === 'tokenBudget',
+    )
+    .pop();
+}
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`);
+
+/**
+ * How much of the context window of the model the prompt of the last request took, by part.
+ */
+export const ContextUsageMeter = ({ messages }: ContextUsageMeterProps) => {
+  const budget = getTokenBudget(messages);
+
+  if (!budget) {
+    return null;
+  }
+
+  const usage = budget.contextWindow ? Math.min(budget.total / budget.contextWindow, 1) : undefined;
+  const parts = [
+    { label: 'System prompt', tokens: budget.systemPrompt },
+    { label: 'Summary', tokens: budget.summary },
+    { label: 'Context files', tokens: budget.contextFiles },
+    { label: 'Chat history', tokens: budget.history },
+    { label: 'Reserved for the response', tokens: budget.maxOutputTokens },
+  ];
+
+  const tooltip = (
+    <div className="flex flex-col gap-1 text-xs">
+      <div className="font-medium">
+        {formatTokens(budget.total)}
+        {budget.contextWindow ? ` of ${formatTokens(budget.contextWindow)} tokens` : ' tokens'}
+      </div>
+      {parts
+        .filter((part) => part.tokens > 0)
+        .map((part) => (
+          <div key={part.label} className="flex justify-between gap-4 text-bolt-elements-textSecondary">
+            <span>{part.label}</span>
+            <span>{formatTokens(part.tokens)}</span>
+          </div>
+        ))}
+      {(budget.trimmedMessages > 0 || budget.trimmedFiles > 0) && (
+        <div className="text-bolt-elements-textTertiary">
+          Left out {budget.trimmedMessages} messages and {budget.trimmedFiles} files to fit the context window
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <WithTooltip tooltip={tooltip} position="left">
+      <div className="absolute flex justify-center items-center top-[58px] right-[31px] w-4 h-4 text-bolt-elements-textTertiary">
+        {usage === undefined ? (
+          <div className="i-ph:gauge text-base" />
+        ) : (
+          <svg viewBox="0 0 16 16" className="w-4 h-4 -rotate-90">
+            <circle cx="8" cy="8" r={RADIUS} fill="none" stroke="currentColor" strokeWidth="2" opacity="0.3" />
+            <circle
+              cx="8"
+              cy="8"
+              r={RADIUS}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeDasharray={CIRCUMFERENCE}
+              strokeDashoffset={CIRCUMFERENCE * (1 - usage)}
+              className={classNames({
+                'text-green-500': usage < 0.7,
+                'text-yellow-500': usage >= 0.7 && usage < 0.9,
+                'text-red-500': usage >= 0.9,
+              })}
+            />
+          </svg>
+        )}
+      </div>
+    </WithTooltip>
+  );
+};
@@ -4,27 +4,35 @@ import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
 import { UserMessage } from './UserMessage';
 import { useLocation } from '@remix-run/react';
-import { db, chatId } from '~/lib/persistence/useChatHistory';
+import { db, chatId, checkpointIds } from '~/lib/persistence/useChatHistory';
 import { forkChat } from '~/lib/persistence/db';
 import { toast } from 'react-toastify';
 import WithTooltip from '~/components/ui/Tooltip';
 import { useStore } from '@nanostores/react';
 import { profileStore } from '~/lib/stores/profile';
-import { forwardRef } from 'react';
+import { forwardRef, useState } from 'react';
 import type { ForwardedRef } from 'react';
+import { RestoreCheckpointDialog } from './RestoreCheckpointDialog';
+import type { Plan } from '~/lib/common/plan';
+import { getReasoning } from '~/lib/common/reasoning';
 
 interface MessagesProps {
   id?: string;
   className?: string;
   isStreaming?: boolean;
   messages?: Message[];
+
+  // only the plan of the last response can be approved, the chat moved on from the plans before it
+  onApprovePlan?: (plan: Plan) => void;
 }
 
 export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
   (props: MessagesProps, ref: ForwardedRef<HTMLDivElement> | undefined) => {
-    const { id, isStreaming = false, messages = [] } = props;
+    const { id, isStreaming = false, messages = [], onApprovePlan } = props;
     const location = useLocation();
     const profile = useStore(profileStore);
+    const checkpoints = useStore(checkpointIds);
+    const [restoreMessageId, setRestoreMessageId] = useState<string>();
 
     const handleRewind = (messageId: string) => {
       const searchParams = new URLSearchParams(location.search);
@@ -89,7 +97,16 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                     {isUserMessage ? (
                       <UserMessage content={content} />
                     ) : (
-                      <AssistantMessage content={content} annotations={message.annotations} />
+                      <AssistantMessage
+                        content={content}
+                        annotations={message.annotations}
+                        reasoning={getReasoning(message)}
+                        thinking={isStreaming && isLast && message.parts?.at(-1)?.type === 'reasoning'}
+                        onRestore={
+                          !isStreaming && checkpoints.has(messageId) ? () => setRestoreMessageId(messageId) : undefined
+                        }
+                        onApprovePlan={!isStreaming && isLast ? onApprovePlan : undefined}
+                      />
                     )}
                   </div>
                   {!isUserMessage && (
@@ -126,6 +143,7 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
         {isStreaming && (
           <div className="text-center w-full text-bolt-elements-textSecondary i-svg-spinners:3-dots-fade text-4xl mt-4"></div>
         )}
+        <RestoreCheckpointDialog messageId={restoreMessageId} onClose={() => setRestoreMessageId(undefined)} />
       </div>
     );
   },
@@ -1,7 +1,8 @@
 import type { ProviderInfo } from '~/types/model';
 import { useEffect, useState, useRef } from 'react';
 import type { KeyboardEvent } from 'react';
-import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { ModelCapability, ModelInfo } from '~/lib/modules/llm/types';
+import { hasCapability, MODEL_CAPABILITIES } from '~/lib/modules/llm/capabilities';
 import { classNames } from '~/utils/classNames';
 import * as React from 'react';
 
@@ -26,6 +27,7 @@ export const ModelSelector = ({
   modelLoading,
 }: ModelSelectorProps) => {
   const [modelSearchQuery, setModelSearchQuery] = useState('');
+  const [capabilityFilter, setCapabilityFilter] = useState<ModelCapability[]>([]);
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
   const [focusedIndex, setFocusedIndex] = useState(-1);
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -52,12 +54,13 @@ export const ModelSelector = ({
       (model) =>
         model.label.toLowerCase().includes(modelSearchQuery.toLowerCase()) ||
         model.name.toLowerCase().includes(modelSearchQuery.toLowerCase()),
-    );
+    )
+    .filter((model) => capabilityFilter.every((capability) => hasCapability(model, capability)));
 
   // Reset focused index when search query changes or dropdown opens/closes
   useEffect(() => {
     setFocusedIndex(-1);
-  }, [modelSearchQuery, isModelDropdownOpen]);
+  }, [modelSearchQuery, capabilityFilter, isModelDropdownOpen]);
 
   // Focus search input when dropdown opens
   useEffect(() => {
@@ -252,6 +255,36 @@ export const ModelSelector = ({
                   <span className="i-ph:magnifying-glass text-bolt-elements-textTertiary" />
                 </div>
               </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {MODEL_CAPABILITIES.map(({ key, label, icon }) => {
+                  const active = capabilityFilter.includes(key);
+
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      aria-pressed={active}
+                      className={classNames(
+                        'flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-all',
+                        active
+                          ? 'border-bolt-elements-focus bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                          : 'border-bolt-elements-borderColor text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+                      )}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setCapabilityFilter(
+                          active
+                            ? capabilityFilter.filter((capability) => capability !== key)
+                            : [...capabilityFilter, key],
+                        );
+                      }}
+                    >
+                      <span className={icon} />
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
             </div>
 
             <div
@@ -299,7 +332,16 @@ export const ModelSelector = ({
                     }}
                     tabIndex={focusedIndex === index ? 0 : -1}
                   >
-                    {modelOption.label}
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate">{modelOption.label}</span>
+                      <span className="flex shrink-0 gap-1 text-bolt-elements-textTertiary">
+                        {MODEL_CAPABILITIES.filter(({ key }) => hasCapability(modelOption, key)).map(
+                          ({ key, label, icon }) => (
+                            <span key={key} className={icon} title={label} />
+                          ),
+                        )}
+                      </span>
+                    </div>
                   </div>
                 ))
               )}
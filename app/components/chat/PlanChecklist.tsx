@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import type { Plan } from '~/lib/common/plan';
+import { classNames } from '~/utils/classNames';
+
+interface PlanItem {
+  text: string;
+  checked: boolean;
+}
+
+type EditablePlan = Record<keyof Plan, PlanItem[]>;
+
+const SECTIONS: { key: keyof Plan; label: string; icon: string }[] = [
+  { key: 'files', label: 'Files', icon: 'i-ph:file' },
+  { key: 'packages', label: 'Packages', icon: 'i-ph:package' },
+  { key: 'steps', label: 'Steps', icon: 'i-ph:list-numbers' },
+];
+
+function toEditablePlan(plan: Plan): EditablePlan {
+  const toItems = (entries: string[]) => entries.map((text) => ({ text, checked: true }));
+
+  return { files: toItems(plan.files), packages: toItems(plan.packages), steps: toItems(plan.steps) };
+}
+
+// unchecked and emptied items are left out of the approved plan
+function toApprovedPlan(items: EditablePlan): Plan {
+  const toEntries = (entries: PlanItem[]) =>
+    entries.filter((item) => item.checked && item.text.trim()).map((item) => item.text.trim());
+
+  return { files: toEntries(items.files), packages: toEntries(items.packages), steps: toEntries(items.steps) };
+}
+
+interface PlanChecklistProps {
+  plan: Plan;
+  complete: boolean;
+
+  // missing when the plan can't be approved (anymore), then the checklist is read-only
+  onApprove?: (plan: Plan) => void;
+}
+
+export function PlanChecklist({ plan, complete, onApprove }: PlanChecklistProps) {
+  // unset until the user edits the plan, until then it follows the streamed plan
+  const [edited, setEdited] = useState<EditablePlan>();
+
+  const items = edited ?? toEditablePlan(plan);
+  const editable = complete && !!onApprove;
+  const approved = toApprovedPlan(items);
+
+  const updateItems = (section: keyof Plan, update: (entries: PlanItem[]) => PlanItem[]) => {
+    setEdited({ ...items, [section]: update(items[section]) });
+  };
+
+  return (
+    <div className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-4 my-2 space-y-4">
+      {SECTIONS.filter(({ key }) => items[key].length > 0 || (editable && key === 'steps')).map(
+        ({ key, label, icon }) => (
+          <div key={key} className="space-y-1">
+            <div className="flex items-center gap-1.5 text-sm font-medium text-bolt-elements-textPrimary">
+              <div className={icon} />
+              {label}
+            </div>
+            {items[key].map((item, index) => (
+              <div key={index} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  disabled={!editable}
+                  onChange={(e) =>
+                    updateItems(key, (entries) =>
+                      entries.map((entry, i) => (i === index ? { ...entry, checked: e.target.checked } : entry)),
+                    )
+                  }
+                />
+                {editable ? (
+                  <input
+                    value={item.text}
+                    onChange={(e) =>
+                      updateItems(key, (entries) =>
+                        entries.map((entry, i) => (i === index ? { ...entry, text: e.target.value } : entry)),
+                      )
+                    }
+                    className={classNames(
+                      'flex-1 min-w-0 px-2 py-1 rounded-md bg-transparent',
+                      'text-bolt-elements-textPrimary border border-transparent',
+                      'hover:border-bolt-elements-borderColor focus:outline-none focus:border-bolt-elements-focus',
+                    )}
+                  />
+                ) : (
+                  <span
+                    className={classNames('flex-1 px-2 py-1', {
+                      'text-bolt-elements-textPrimary': item.checked,
+                      'text-bolt-elements-textTertiary line-through': !item.checked,
+                    })}
+                  >
+                    {item.text}
+                  </span>
+                )}
+              </div>
+            ))}
+            {editable && key === 'steps' && (
+              <button
+                onClick={() => updateItems('steps', (entries) => [...entries, { text: '', checked: true }])}
+                className="flex items-center gap-1 text-xs bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+              >
+                <div className="i-ph:plus" />
+                Add step
+              </button>
+            )}
+          </div>
+        ),
+      )}
+      {editable && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => onApprove?.(approved)}
+            disabled={approved.steps.length === 0}
+            className={classNames(
+              'px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-1.5',
+              'bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover',
+              'text-bolt-elements-button-primary-text',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+            )}
+          >
+            <div className="i-ph:hammer" />
+            Approve and build
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
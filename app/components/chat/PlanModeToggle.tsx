@@ -0,0 +1,20 @@
+import { IconButton } from '~/components/ui/IconButton';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { classNames } from '~/utils/classNames';
+
+export function PlanModeToggle({ disabled }: { disabled?: boolean }) {
+  const { planModeEnabled, enablePlanMode } = useSettings();
+
+  return (
+    <IconButton
+      title={planModeEnabled ? 'Plan mode: requests are answered with a plan to approve' : 'Plan mode'}
+      disabled={disabled}
+      className={classNames('transition-all', {
+        'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': planModeEnabled,
+      })}
+      onClick={() => enablePlanMode(!planModeEnabled)}
+    >
+      <div className="i-ph:list-checks text-xl" />
+    </IconButton>
+  );
+}
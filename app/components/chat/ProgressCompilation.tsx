@@ -105,6 +105,7 @@ const ProgressItem = ({ progress }: { progress: ProgressAnnotation }) => {
         {/* {x.label} */}
       </div>
       {progress.message}
+      {progress.model && <span className="text-bolt-elements-textTertiary">{progress.model.model}</span>}
     </motion.div>
   );
 };
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { Markdown } from './Markdown';
+import { classNames } from '~/utils/classNames';
+
+interface ReasoningPanelProps {
+  reasoning: string;
+
+  // how long the model reasoned in milliseconds, missing for responses from before the timing was recorded
+  duration?: number;
+
+  // whether the model is reasoning right now, the panel stays open and counts up the time meanwhile
+  thinking: boolean;
+}
+
+function formatDuration(duration: number) {
+  const seconds = Math.max(1, Math.round(duration / 1000));
+
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function ReasoningPanel({ reasoning, duration, thinking }: ReasoningPanelProps) {
+  // unset until the user toggles the panel, until then it is open while the model thinks
+  const [expanded, setExpanded] = useState<boolean>();
+  const [thinkingSince, setThinkingSince] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!thinking) {
+      return undefined;
+    }
+
+    // the response can reason again after a step or a segment, the time adds to the reasoning before it
+    setThinkingSince(Date.now());
+    setNow(Date.now());
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(interval);
+  }, [thinking]);
+
+  const open = expanded ?? thinking;
+
+  let title = 'Reasoning';
+
+  if (thinking) {
+    title = `Thinking for ${formatDuration((duration ?? 0) + now - thinkingSince)}`;
+  } else if (duration !== undefined) {
+    title = `Thought for ${formatDuration(duration)}`;
+  }
+
+  return (
+    <div className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 mb-2">
+      <button
+        onClick={() => setExpanded(!open)}
+        className="w-full flex items-center gap-2 px-4 py-2 bg-transparent text-sm font-medium text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+      >
+        <div className={classNames('text-lg', thinking ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:brain')} />
+        {title}
+        <div className={classNames('ml-auto i-ph:caret-down transition-transform', { 'rotate-180': open })} />
+      </button>
+      {open && (
+        <div className="px-4 pb-3 max-h-96 overflow-y-auto text-sm text-bolt-elements-textTertiary border-t border-bolt-elements-borderColor">
+          <Markdown>{reasoning}</Markdown>
+        </div>
+      )}
+    </div>
+  );
+}
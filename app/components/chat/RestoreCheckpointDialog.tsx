@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { getCheckpoint, rewindToCheckpoint } from '~/lib/persistence/checkpoints';
+import { chatId, db } from '~/lib/persistence/useChatHistory';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { diffFileMaps, extractRelativePath, type FileMapChange } from '~/utils/diff';
+
+interface RestoreCheckpointDialogProps {
+  messageId?: string;
+  onClose: () => void;
+}
+
+const changeLabels = {
+  added: { label: 'restored', className: 'text-green-500' },
+  removed: { label: 'deleted', className: 'text-red-500' },
+  modified: { label: 'reverted', className: 'text-yellow-500' },
+};
+
+export function RestoreCheckpointDialog({ messageId, onClose }: RestoreCheckpointDialogProps) {
+  const [changes, setChanges] = useState<FileMapChange[]>();
+  const [expandedFile, setExpandedFile] = useState<string>();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const id = chatId.get();
+
+    setChanges(undefined);
+    setExpandedFile(undefined);
+
+    if (!messageId || !db || !id) {
+      return;
+    }
+
+    getCheckpoint(db, id, messageId)
+      .then((files) => {
+        if (!files) {
+          toast.error('No checkpoint was recorded for this message');
+          onClose();
+
+          return;
+        }
+
+        setChanges(diffFileMaps(workbenchStore.files.get(), files));
+      })
+      .catch((error) => {
+        toast.error('Failed to load checkpoint: ' + (error as Error).message);
+        onClose();
+      });
+  }, [messageId]);
+
+  const restore = async () => {
+    const id = chatId.get();
+
+    if (!db || !id || !messageId) {
+      toast.error('Chat persistence is not available');
+      return;
+    }
+
+    setIsRestoring(true);
+
+    try {
+      const urlId = await rewindToCheckpoint(db, id, messageId);
+
+      // hard page navigation so the project is booted from the checkpoint
+      window.location.href = `/chat/${urlId}`;
+    } catch (error) {
+      toast.error('Failed to restore checkpoint: ' + (error as Error).message);
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <DialogRoot open={messageId !== undefined}>
+      <Dialog onBackdrop={onClose} onClose={onClose} className="w-[720px]">
+        <div className="p-6 bg-white dark:bg-gray-950">
+          <DialogTitle className="text-gray-900 dark:text-white">Restore to this message?</DialogTitle>
+          <DialogDescription className="mt-2 text-gray-600 dark:text-gray-400">
+            The project files are reset to the state after this message and all later messages are removed from the
+            chat.
+          </DialogDescription>
+          <div className="mt-4 max-h-[50vh] overflow-y-auto rounded-md border border-bolt-elements-borderColor">
+            {changes === undefined ? (
+              <div className="flex items-center justify-center p-4">
+                <div className="i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress text-xl" />
+              </div>
+            ) : changes.length === 0 ? (
+              <div className="p-4 text-sm text-bolt-elements-textSecondary">The files did not change since then.</div>
+            ) : (
+              <ul className="list-none divide-y divide-bolt-elements-borderColor">
+                {changes.map((change) => (
+                  <li key={change.filePath}>
+                    <button
+                      className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm bg-transparent disabled:cursor-default"
+                      disabled={!change.diff}
+                      onClick={() => setExpandedFile(expandedFile === change.filePath ? undefined : change.filePath)}
+                    >
+                      <span className="flex-1 truncate font-mono text-bolt-elements-textPrimary">
+                        {extractRelativePath(change.filePath)}
+                      </span>
+                      <span className={classNames('text-xs', changeLabels[change.type].className)}>
+                        {changeLabels[change.type].label}
+                      </span>
+                      {change.diff && (
+                        <div
+                          className={classNames(
+                            'text-bolt-elements-textSecondary',
+                            expandedFile === change.filePath ? 'i-ph:caret-up' : 'i-ph:caret-down',
+                          )}
+                        />
+                      )}
+                    </button>
+                    {expandedFile === change.filePath && change.diff && <DiffLines diff={change.diff} />}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 px-6 py-4 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800">
+          <DialogButton type="secondary" onClick={onClose}>
+            Cancel
+          </DialogButton>
+          <DialogButton type="danger" onClick={restore} disabled={changes === undefined || isRestoring}>
+            {isRestoring ? 'Restoring...' : 'Restore'}
+          </DialogButton>
+        </div>
+      </Dialog>
+    </DialogRoot>
+  );
+}
+
+/**
+ * Renders the diff from the current files to the checkpoint.
+ */
+function DiffLines({ diff }: { diff: string }) {
+  return (
+    <pre className="m-0 px-3 pb-2 text-xs overflow-x-auto">
+      {diff.split('\n').map((line, index) => (
+        <div
+          key={index}
+          className={classNames({
+            'text-green-500': line.startsWith('+'),
+            'text-red-500': line.startsWith('-'),
+            'text-bolt-elements-textTertiary': line.startsWith('@@'),
+            'text-bolt-elements-textSecondary': !/^[+\-@]/.test(line),
+          })}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
@@ -0,0 +1,35 @@
+import { useSettings } from '~/lib/hooks/useSettings';
+import { THINKING_BUDGETS } from '~/lib/common/reasoning';
+import type { ProviderInfo } from '~/types/model';
+
+interface ThinkingBudgetSelectProps {
+  provider: ProviderInfo;
+  model: string;
+}
+
+export function ThinkingBudgetSelect({ provider, model }: ThinkingBudgetSelectProps) {
+  const { getThinkingBudget, setThinkingBudget } = useSettings();
+
+  return (
+    <div className="flex items-center justify-between py-3 px-1">
+      <div className="flex flex-col">
+        <span className="text-sm font-medium text-bolt-elements-textSecondary">Thinking budget</span>
+        <span className="text-xs text-bolt-elements-textTertiary">
+          How long this model reasons before it answers, Anthropic models only think with a budget
+        </span>
+      </div>
+      <select
+        value={getThinkingBudget(provider.name, model) ?? ''}
+        onChange={(e) => setThinkingBudget(provider.name, model, Number(e.target.value) || undefined)}
+        className="p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
+      >
+        <option value="">Default</option>
+        {THINKING_BUDGETS.map(({ label, budget }) => (
+          <option key={budget} value={budget}>
+            {label} ({budget / 1024}k tokens)
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Switch } from '~/components/ui/Switch';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { ProviderInfo } from '~/types/model';
+
+interface ToolCallingToggleProps {
+  provider: ProviderInfo;
+  model: string;
+}
+
+export function ToolCallingToggle({ provider, model }: ToolCallingToggleProps) {
+  const { isToolCallingEnabled, enableToolCalling } = useSettings();
+
+  return (
+    <div className="flex items-center justify-between py-3 px-1">
+      <div className="flex flex-col">
+        <span className="text-sm font-medium text-bolt-elements-textSecondary">Native tool calls</span>
+        <span className="text-xs text-bolt-elements-textTertiary">
+          Let this model write files and run commands through tool calls instead of artifacts
+        </span>
+      </div>
+      <Switch
+        checked={isToolCallingEnabled(provider.name, model)}
+        onCheckedChange={(checked) => enableToolCalling(provider.name, model, checked)}
+      />
+    </div>
+  );
+}
@@ -3,10 +3,12 @@ import { toast } from 'react-toastify';
 import { ImportFolderButton } from '~/components/chat/ImportFolderButton';
 import { Button } from '~/components/ui/Button';
 import { classNames } from '~/utils/classNames';
+import { createRulesMessage } from '~/lib/common/project-rules';
 
 type ChatData = {
   messages?: Message[]; // Standard Bolt format
   description?: string; // Optional description
+  rules?: string; // The project rules, restored as a hidden message
 };
 
 export function ImportButtons(importChat: ((description: string, messages: Message[]) => Promise<void>) | undefined) {
@@ -31,7 +33,9 @@ export function ImportButtons(importChat: ((description: string, messages: Messa
 
                   // Standard format
                   if (Array.isArray(data.messages)) {
-                    await importChat(data.description || 'Imported Chat', data.messages);
+                    const messages = data.rules ? [...data.messages, createRulesMessage(data.rules)] : data.messages;
+
+                    await importChat(data.description || 'Imported Chat', messages);
                     toast.success('Chat imported successfully');
 
                     return;
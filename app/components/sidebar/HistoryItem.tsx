@@ -1,7 +1,8 @@
 import { useParams } from '@remix-run/react';
 import { classNames } from '~/utils/classNames';
 import * as Dialog from '@radix-ui/react-dialog';
-import { type ChatHistoryItem } from '~/lib/persistence';
+import { type ChatHistoryItem, type UsageSummary } from '~/lib/persistence';
+import { formatCost } from '~/utils/formatCost';
 import WithTooltip from '~/components/ui/Tooltip';
 import { useEditChatDescription } from '~/lib/hooks';
 import { forwardRef, type ForwardedRef } from 'react';
@@ -11,9 +12,10 @@ interface HistoryItemProps {
   onDelete?: (event: React.UIEvent) => void;
   onDuplicate?: (id: string) => void;
   exportChat: (id?: string) => void;
+  usage?: UsageSummary;
 }
 
-export function HistoryItem({ item, onDelete, onDuplicate, exportChat }: HistoryItemProps) {
+export function HistoryItem({ item, onDelete, onDuplicate, exportChat, usage }: HistoryItemProps) {
   const { id: urlId } = useParams();
   const isActiveChat = urlId === item.urlId;
 
@@ -59,6 +61,12 @@ export function HistoryItem({ item, onDelete, onDuplicate, exportChat }: History
               { 'bg-gray-50/80 dark:bg-gray-800/30': isActiveChat },
             )}
           >
+            {usage && (
+              <span className="absolute right-2 text-xs text-gray-400 dark:text-gray-500 group-hover:opacity-0 transition-opacity">
+                {formatCost(usage.cost)}
+                {usage.incomplete && '+'}
+              </span>
+            )}
             <div className="flex items-center gap-2.5 text-gray-400 dark:text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">
               <ChatActionButton
                 toolTipContent="Export"
@@ -5,7 +5,20 @@ import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from
 import { ThemeSwitch } from '~/components/ui/ThemeSwitch';
 import { ControlPanel } from '~/components/@settings/core/ControlPanel';
 import { SettingsButton } from '~/components/ui/SettingsButton';
-import { db, deleteById, getAll, chatId, type ChatHistoryItem, useChatHistory } from '~/lib/persistence';
+import {
+  db,
+  deleteById,
+  getAll,
+  getAllUsage,
+  getMonthKey,
+  getMonthlyUsage,
+  getUsageByChat,
+  chatId,
+  type ChatHistoryItem,
+  type UsageSummary,
+  useChatHistory,
+} from '~/lib/persistence';
+import { formatCost } from '~/utils/formatCost';
 import { cubicEasingFn } from '~/utils/easings';
 import { logger } from '~/utils/logger';
 import { HistoryItem } from './HistoryItem';
@@ -64,6 +77,8 @@ export const Menu = () => {
   const { duplicateCurrentChat, exportChat } = useChatHistory();
   const menuRef = useRef<HTMLDivElement>(null);
   const [list, setList] = useState<ChatHistoryItem[]>([]);
+  const [usageByChat, setUsageByChat] = useState<Map<string, UsageSummary>>(new Map());
+  const [monthlyCost, setMonthlyCost] = useState<number>();
   const [open, setOpen] = useState(false);
   const [dialogContent, setDialogContent] = useState<DialogContent>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -80,6 +95,14 @@ export const Menu = () => {
         .then((list) => list.filter((item) => item.urlId && item.description))
         .then(setList)
         .catch((error) => toast.error(error.message));
+
+      getAllUsage(db)
+        .then((records) => {
+          const [latestMonth] = getMonthlyUsage(records);
+          setUsageByChat(getUsageByChat(records));
+          setMonthlyCost(latestMonth?.month === getMonthKey(new Date()) ? latestMonth.cost : undefined);
+        })
+        .catch((error) => logger.error('Failed to load usage', error));
     }
   }, []);
 
@@ -216,7 +239,12 @@ export const Menu = () => {
               />
             </div>
           </div>
-          <div className="text-gray-600 dark:text-gray-400 text-sm font-medium px-4 py-2">Your Chats</div>
+          <div className="flex items-center justify-between text-gray-600 dark:text-gray-400 text-sm font-medium px-4 py-2">
+            <span>Your Chats</span>
+            {monthlyCost !== undefined && (
+              <span className="text-xs font-normal text-gray-500">This month: {formatCost(monthlyCost)}</span>
+            )}
+          </div>
           <div className="flex-1 overflow-auto px-3 pb-3">
             {filteredList.length === 0 && (
               <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">
@@ -235,6 +263,7 @@ export const Menu = () => {
                         key={item.id}
                         item={item}
                         exportChat={exportChat}
+                        usage={usageByChat.get(item.id)}
                         onDelete={(event) => handleDeleteClick(event, item)}
                         onDuplicate={() => handleDuplicate(item.id)}
                       />
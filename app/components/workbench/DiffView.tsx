@@ -1,6 +1,6 @@
 import { memo, useMemo, useState, useEffect, useCallback } from 'react';
 import { useStore } from '@nanostores/react';
-import { workbenchStore } from '~/lib/stores/workbench';
+import { workbenchStore, type MergeConflictState } from '~/lib/stores/workbench';
 import type { FileMap } from '~/lib/stores/files';
 import type { EditorDocument } from '~/components/editor/codemirror/CodeMirrorEditor';
 import { diffLines, type Change } from 'diff';
@@ -10,7 +10,10 @@ import { diffFiles, extractRelativePath } from '~/utils/diff';
 import { ActionRunner } from '~/lib/runtime/action-runner';
 import type { FileHistory } from '~/types/actions';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
 import { themeStore } from '~/lib/stores/theme';
+import { resolveMerge, type ConflictResolution } from '~/utils/merge';
+import { classNames } from '~/utils/classNames';
 
 interface CodeComparisonProps {
   beforeCode: string;
@@ -618,6 +621,121 @@ const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }
   );
 });
 
+const conflictSideStyles = {
+  mine: 'bg-blue-500/10 dark:bg-blue-500/20 border-l-4 border-blue-500',
+  theirs: 'bg-green-500/10 dark:bg-green-500/20 border-l-4 border-green-500',
+};
+
+const ConflictLines = memo(({ lines, className }: { lines: string[]; className?: string }) => (
+  <>
+    {lines.map((line, index) => (
+      <div key={index} className="flex group min-w-fit">
+        <div className={`${lineContentStyles} ${className ?? ''}`}>{line || ' '}</div>
+      </div>
+    ))}
+  </>
+));
+
+const ConflictSideHeader = memo(
+  ({ label, selected, onAccept }: { label: string; selected: boolean; onAccept: () => void }) => (
+    <div className="flex items-center gap-2 px-2 py-1 text-xs bg-bolt-elements-background-depth-1 text-bolt-elements-textSecondary">
+      <span>{label}</span>
+      <button
+        onClick={onAccept}
+        className={classNames('ml-auto px-2 py-0.5 rounded-md', {
+          'bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text': selected,
+          'hover:bg-bolt-elements-background-depth-3': !selected,
+        })}
+      >
+        {selected ? 'Accepted' : 'Accept'}
+      </button>
+    </div>
+  ),
+);
+
+const MergeConflictView = memo(({ conflict }: { conflict: MergeConflictState }) => {
+  const [resolutions, setResolutions] = useState<Array<ConflictResolution | undefined>>([]);
+
+  useEffect(() => {
+    setResolutions([]);
+  }, [conflict]);
+
+  const conflictCount = conflict.chunks.filter((chunk) => chunk.type === 'conflict').length;
+  const resolvedCount = resolutions.filter(Boolean).length;
+
+  const setResolution = (index: number, resolution: ConflictResolution) => {
+    setResolutions((prev) => {
+      const next = [...prev];
+      next[index] = resolution;
+
+      return next;
+    });
+  };
+
+  const applyResolutions = (fallback?: ConflictResolution) => {
+    workbenchStore.resolveMergeConflict(conflict.filePath, resolveMerge(conflict.chunks, resolutions, fallback));
+  };
+
+  let conflictIndex = 0;
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex items-center gap-2 bg-bolt-elements-background-depth-1 p-2 text-sm text-bolt-elements-textPrimary shrink-0">
+        <div className="i-ph:git-merge mr-1 h-4 w-4 shrink-0 text-yellow-600 dark:text-yellow-400" />
+        <span className="truncate">{conflict.filePath}</span>
+        <span className="text-bolt-elements-textTertiary text-xs">
+          {resolvedCount}/{conflictCount} conflicts resolved
+        </span>
+        <span className="ml-auto shrink-0 flex items-center gap-1">
+          <PanelHeaderButton onClick={() => applyResolutions('mine')}>Keep All Mine</PanelHeaderButton>
+          <PanelHeaderButton onClick={() => applyResolutions('theirs')}>Take All AI</PanelHeaderButton>
+          <PanelHeaderButton disabled={resolvedCount < conflictCount} onClick={() => applyResolutions()}>
+            <div className="i-ph:check" />
+            Apply
+          </PanelHeaderButton>
+        </span>
+      </div>
+      <div className={diffPanelStyles}>
+        <div className="overflow-x-auto min-w-full text-sm">
+          {conflict.chunks.map((chunk, chunkIndex) => {
+            if (chunk.type === 'stable') {
+              return <ConflictLines key={chunkIndex} lines={chunk.lines} />;
+            }
+
+            const index = conflictIndex++;
+            const resolution = resolutions[index];
+
+            return (
+              <div key={chunkIndex} className="my-2 border-y border-bolt-elements-borderColor">
+                <ConflictSideHeader
+                  label="Your unsaved changes"
+                  selected={resolution === 'mine' || resolution === 'both'}
+                  onAccept={() => setResolution(index, 'mine')}
+                />
+                <ConflictLines lines={chunk.mine} className={conflictSideStyles.mine} />
+                <ConflictSideHeader
+                  label="AI changes"
+                  selected={resolution === 'theirs' || resolution === 'both'}
+                  onAccept={() => setResolution(index, 'theirs')}
+                />
+                <ConflictLines lines={chunk.theirs} className={conflictSideStyles.theirs} />
+                <div className="flex px-2 py-1 bg-bolt-elements-background-depth-1">
+                  <button
+                    onClick={() => setResolution(index, 'both')}
+                    className="ml-auto px-2 py-0.5 rounded-md text-xs text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+                  >
+                    Accept Both
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+});
+
 interface DiffViewProps {
   fileHistory: Record<string, FileHistory>;
   setFileHistory: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
@@ -629,6 +747,7 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const selectedFile = useStore(workbenchStore.selectedFile);
   const currentDocument = useStore(workbenchStore.currentDocument) as EditorDocument;
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
+  const mergeConflicts = useStore(workbenchStore.mergeConflicts);
 
   useEffect(() => {
     if (selectedFile && currentDocument) {
@@ -720,6 +839,16 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
     );
   }
 
+  const mergeConflict = mergeConflicts[selectedFile];
+
+  if (mergeConflict) {
+    return (
+      <div className="h-full overflow-hidden">
+        <MergeConflictView conflict={mergeConflict} />
+      </div>
+    );
+  }
+
   const file = files[selectedFile];
   const originalContent = file && 'content' in file ? file.content : '';
   const currentContent = currentDocument.value;
@@ -58,6 +58,7 @@ export const EditorPanel = memo(
 
     const theme = useStore(themeStore);
     const showTerminal = useStore(workbenchStore.showTerminal);
+    const mergeConflicts = useStore(workbenchStore.mergeConflicts);
 
     const activeFileSegments = useMemo(() => {
       if (!editorDocument) {
@@ -101,6 +102,15 @@ export const EditorPanel = memo(
                     <FileBreadcrumb pathSegments={activeFileSegments} files={files} onFileSelect={onFileSelect} />
                     {activeFileUnsaved && (
                       <div className="flex gap-1 ml-auto -mr-1.5">
+                        {editorDocument && mergeConflicts[editorDocument.filePath] && (
+                          <PanelHeaderButton
+                            className="text-yellow-600 dark:text-yellow-400"
+                            onClick={() => workbenchStore.currentView.set('diff')}
+                          >
+                            <div className="i-ph:git-merge" />
+                            Resolve Conflicts
+                          </PanelHeaderButton>
+                        )}
                         <PanelHeaderButton onClick={onFileSave}>
                           <div className="i-ph:floppy-disk-duotone" />
                           Save
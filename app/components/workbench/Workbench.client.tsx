@@ -399,6 +399,17 @@ export const Workbench = memo(
                         <div className="i-ph:terminal" />
                         Toggle Terminal
                       </PanelHeaderButton>
+                      <PanelHeaderButton
+                        className="mr-1 text-sm"
+                        onClick={() => {
+                          workbenchStore
+                            .openProjectRules()
+                            .catch(() => toast.error('Failed to open the project rules'));
+                        }}
+                      >
+                        <div className="i-ph:list-checks" />
+                        Rules
+                      </PanelHeaderButton>
                       <PanelHeaderButton className="mr-1 text-sm" onClick={() => setIsPushDialogOpen(true)}>
                         <div className="i-ph:git-branch" />
                         Push to GitHub
@@ -1,9 +1,15 @@
 // see https://docs.anthropic.com/en/docs/about-claude/models
 export const MAX_TOKENS = 8000;
 
-// limits the number of model responses that can be returned in a single request
+// limits the number of model responses that can be returned in a single request, unless the model sets its own limit
 export const MAX_RESPONSE_SEGMENTS = 2;
 
+// limits the number of times a response is continued with the results of read actions
+export const MAX_READ_SEGMENTS = 5;
+
+// limits the number of model calls in a response that uses native tool calls
+export const MAX_TOOL_STEPS = 25;
+
 export interface File {
   type: 'file';
   content: string;
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { createContinuePrompt } from './continuation';
+import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
+
+describe('createContinuePrompt', () => {
+  it('points to the line of the file the response was cut off in', () => {
+    const prompt = createContinuePrompt(
+      '<boltArtifact title="App" id="app"><boltAction type="file" filePath="src/app.ts">\nconst a = 1;\nconst b',
+    );
+
+    expect(prompt).toContain('`src/app.ts`, in the middle of line 2');
+    expect(prompt).toContain('const a = 1;\nconst b\n```');
+  });
+
+  it('continues a response that was cut off outside of artifacts as before', () => {
+    expect(createContinuePrompt('Some text')).toBe(CONTINUE_PROMPT);
+  });
+});
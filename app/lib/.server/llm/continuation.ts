@@ -0,0 +1,82 @@
+import type { StreamTextTransform } from 'ai';
+import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
+import { CONTINUATION_MARKER, StreamingMessageParser } from '~/lib/runtime/message-parser';
+import type { BoltAction } from '~/types/actions';
+
+// the lines of a cut off file that are quoted to the model to find the point to continue from
+const QUOTED_LINES = 3;
+
+function findOpenAction(response: string) {
+  let insideArtifact = false;
+  let openAction: BoltAction | undefined;
+
+  const parser = new StreamingMessageParser({
+    callbacks: {
+      onArtifactOpen: () => (insideArtifact = true),
+      onArtifactClose: () => (insideArtifact = false),
+      onActionOpen: ({ action }) => (openAction = action),
+
+      // only file actions stream, their content is the part of the file written so far
+      onActionStream: ({ action }) => (openAction = action),
+      onActionClose: () => (openAction = undefined),
+    },
+  });
+
+  parser.parse('response', response);
+
+  return { insideArtifact, openAction };
+}
+
+/**
+ * Tells the model where a response that hit the output limit was cut off, so it continues inside the same
+ * action instead of starting it over. `response` is the whole response across all segments.
+ */
+export function createContinuePrompt(response: string) {
+  const { insideArtifact, openAction } = findOpenAction(response);
+
+  if (openAction?.type === 'file') {
+    const lines = openAction.content.replace(/^\n/, '').split('\n');
+    const lastLine = lines[lines.length - 1];
+    const quoted = lines.slice(-QUOTED_LINES).join('\n');
+
+    const position = lastLine ? `in the middle of line ${lines.length}` : `at the end of line ${lines.length - 1}`;
+
+    return `Your prior response was cut off by the output limit inside the file action for \`${openAction.filePath}\`, ${position}. The file ends with:
+
+\`\`\`
+${quoted}
+\`\`\`
+
+IMPORTANT: Continue the file with the very next characters after this point. Do NOT repeat the artifact or action tags or any part of the file that is already written. Then close the action and finish your response.`;
+  }
+
+  if (openAction) {
+    return `Your prior response was cut off by the output limit inside a ${openAction.type} action. Continue the action exactly where it stopped without repeating its tag or content, then finish your response.`;
+  }
+
+  if (insideArtifact) {
+    return `Your prior response was cut off by the output limit inside an artifact, between two actions. Continue with the next action without opening the artifact again or repeating the actions that are already written.`;
+  }
+
+  return CONTINUE_PROMPT;
+}
+
+/**
+ * Starts a continuation with the marker, so the message parser can stitch the action it was cut off in.
+ */
+export const markContinuation: StreamTextTransform<any> = () => {
+  let marked = false;
+
+  return new TransformStream({
+    transform(part, controller) {
+      if (!marked && part.type === 'text-delta') {
+        marked = true;
+        controller.enqueue({ ...part, textDelta: `${CONTINUATION_MARKER}${part.textDelta}` });
+
+        return;
+      }
+
+      controller.enqueue(part);
+    },
+  });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { WORK_DIR } from '~/utils/constants';
+import { extractReadActions, readProject } from './project-reader';
+
+const files = {
+  [`${WORK_DIR}/src`]: { type: 'folder' },
+  [`${WORK_DIR}/src/App.tsx`]: { type: 'file', content: 'import { useAuth } from "./auth";\n', isBinary: false },
+  [`${WORK_DIR}/src/auth/index.ts`]: { type: 'file', content: 'export function useAuth() {}\n', isBinary: false },
+  [`${WORK_DIR}/package.json`]: { type: 'file', content: '{}', isBinary: false },
+} as const;
+
+describe('readProject', () => {
+  it('should read files relative to the project root', () => {
+    expect(readProject(files, { operation: 'file', path: './package.json' })).toBe('{}');
+    expect(readProject(files, { operation: 'file', path: 'missing.ts' })).toBe('Error: missing.ts does not exist');
+  });
+
+  it('should list the entries of a directory', () => {
+    expect(readProject(files, { operation: 'list', path: '' })).toBe('package.json\nsrc/');
+    expect(readProject(files, { operation: 'list', path: 'src/' })).toBe('App.tsx\nauth/');
+  });
+
+  it('should grep the files of a directory', () => {
+    expect(readProject(files, { operation: 'grep', path: 'src/auth', pattern: 'useAuth\\(' })).toBe(
+      'src/auth/index.ts:1: export function useAuth() {}',
+    );
+  });
+});
+
+describe('extractReadActions', () => {
+  it('should find the read actions of a response', () => {
+    const response = [
+      '<boltArtifact id="app" title="App">',
+      '<boltAction type="read" path="src/App.tsx" />',
+      '<boltAction type="read" operation="grep" pattern="useAuth" path="src" />',
+    ].join('\n');
+
+    expect(extractReadActions(response)).toEqual([
+      { type: 'read', operation: 'file', path: 'src/App.tsx', content: '' },
+      { type: 'read', operation: 'grep', path: 'src', pattern: 'useAuth', content: '' },
+    ]);
+  });
+});
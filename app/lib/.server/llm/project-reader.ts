@@ -0,0 +1,155 @@
+import ignore from 'ignore';
+import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import type { ReadAction } from '~/types/actions';
+import { WORK_DIR } from '~/utils/constants';
+import { IGNORE_PATTERNS, type FileMap } from './constants';
+
+// limits the size of a single grep result so one broad pattern can't fill the context
+const MAX_GREP_MATCHES = 100;
+
+const ig = ignore().add(IGNORE_PATTERNS);
+
+/**
+ * Resolves a read of the model against the files the client sent with the request.
+ */
+export function readProject(files: FileMap, action: Pick<ReadAction, 'operation' | 'path' | 'pattern'>) {
+  switch (action.operation) {
+    case 'file': {
+      return readFile(files, action.path);
+    }
+    case 'list': {
+      return listDirectory(files, action.path);
+    }
+    case 'grep': {
+      return grep(files, action.pattern ?? '', action.path);
+    }
+    default: {
+      return `Error: unknown read operation '${action.operation}'`;
+    }
+  }
+}
+
+/**
+ * Returns the read actions of a response. The response can span multiple segments, so it is parsed as
+ * a whole and the caller keeps track of the reads it already answered.
+ */
+export function extractReadActions(response: string) {
+  const actions: ReadAction[] = [];
+
+  const parser = new StreamingMessageParser({
+    callbacks: {
+      onActionClose: ({ action }) => {
+        if (action.type === 'read') {
+          actions.push(action);
+        }
+      },
+    },
+  });
+
+  parser.parse('response', response);
+
+  return actions;
+}
+
+/**
+ * Formats the results of reads for the message that continues the response.
+ */
+export function createReadResults(files: FileMap, actions: ReadAction[]) {
+  return actions
+    .map((action) => {
+      const attributes = [`operation="${action.operation}"`, `path="${action.path}"`];
+
+      if (action.pattern !== undefined) {
+        attributes.push(`pattern="${action.pattern}"`);
+      }
+
+      return `<boltReadResult ${attributes.join(' ')}>\n${readProject(files, action)}\n</boltReadResult>`;
+    })
+    .join('\n\n');
+}
+
+export function resolvePath(filePath: string) {
+  const relativePath = getRelativePath(filePath);
+  return relativePath ? `${WORK_DIR}/${relativePath}` : WORK_DIR;
+}
+
+function getRelativePath(filePath: string) {
+  if (filePath.startsWith(WORK_DIR)) {
+    filePath = filePath.slice(WORK_DIR.length);
+  }
+
+  return filePath.replace(/^[./]+/, '').replace(/\/+$/, '');
+}
+
+function readFile(files: FileMap, filePath: string) {
+  const dirent = files[resolvePath(filePath)];
+
+  if (dirent?.type !== 'file') {
+    return `Error: ${filePath} does not exist`;
+  }
+
+  return dirent.isBinary ? `Error: ${filePath} is a binary file` : dirent.content;
+}
+
+function listDirectory(files: FileMap, directory: string) {
+  const prefix = getRelativePath(directory);
+  const entries = new Set<string>();
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    const relativePath = getRelativePath(filePath);
+
+    if (!dirent || !relativePath || (prefix && !relativePath.startsWith(`${prefix}/`))) {
+      continue;
+    }
+
+    const [name, ...rest] = (prefix ? relativePath.slice(prefix.length + 1) : relativePath).split('/');
+
+    // folders are marked with a trailing slash
+    entries.add(rest.length > 0 || dirent.type === 'folder' ? `${name}/` : name);
+  }
+
+  if (entries.size === 0) {
+    return `Error: ${directory || '/'} does not exist or is empty`;
+  }
+
+  return [...entries].sort().join('\n');
+}
+
+function grep(files: FileMap, pattern: string, directory = '') {
+  const prefix = getRelativePath(directory);
+  let regex: RegExp;
+
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  }
+
+  const matches: string[] = [];
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    const relativePath = getRelativePath(filePath);
+
+    if (dirent?.type !== 'file' || dirent.isBinary || ig.ignores(relativePath)) {
+      continue;
+    }
+
+    if (prefix && !relativePath.startsWith(`${prefix}/`)) {
+      continue;
+    }
+
+    for (const [index, line] of dirent.content.split('\n').entries()) {
+      if (!regex.test(line)) {
+        continue;
+      }
+
+      if (matches.length === MAX_GREP_MATCHES) {
+        return `${matches.join('\n')}\n(more than ${MAX_GREP_MATCHES} matches, use a more specific pattern)`;
+      }
+
+      matches.push(`${relativePath}:${index + 1}: ${line.trim()}`);
+    }
+  }
+
+  return matches.length > 0 ? matches.join('\n') : `No matches for ${pattern}`;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getReasoningOptions } from './reasoning';
+
+describe('getReasoningOptions', () => {
+  it('passes the budget to Anthropic and reserves it', () => {
+    expect(getReasoningOptions('Anthropic', 8192, 64000)).toEqual({
+      providerOptions: { anthropic: { thinking: { type: 'enabled', budgetTokens: 8192 } } },
+      thinkingTokens: 8192,
+    });
+    expect(getReasoningOptions('Anthropic', 100, 64000).thinkingTokens).toBe(1024);
+  });
+
+  it('caps the budget at half of the output limit', () => {
+    expect(getReasoningOptions('Anthropic', 8192, 8000).thinkingTokens).toBe(4000);
+    expect(getReasoningOptions('OpenAI', 24576, 8000).providerOptions).toEqual({
+      openai: { reasoningEffort: 'medium' },
+    });
+  });
+
+  it('skips thinking when the minimum budget leaves no room for the response', () => {
+    expect(getReasoningOptions('Anthropic', 8192, 2047)).toEqual({ thinkingTokens: 0 });
+    expect(getReasoningOptions('Anthropic', 8192, 2048).thinkingTokens).toBe(1024);
+    expect(getReasoningOptions('OpenAI', 8192, 0)).toEqual({ thinkingTokens: 0 });
+  });
+
+  it('turns the budget into a reasoning effort for OpenAI', () => {
+    expect(getReasoningOptions('OpenAI', 2048, 64000).providerOptions).toEqual({ openai: { reasoningEffort: 'low' } });
+    expect(getReasoningOptions('OpenAI', 24576, 64000).providerOptions).toEqual({
+      openai: { reasoningEffort: 'high' },
+    });
+  });
+
+  it('leaves other providers and models without a budget as they are', () => {
+    expect(getReasoningOptions('Deepseek', 8192, 64000)).toEqual({ thinkingTokens: 0 });
+    expect(getReasoningOptions('Anthropic', undefined, 64000)).toEqual({ thinkingTokens: 0 });
+  });
+});
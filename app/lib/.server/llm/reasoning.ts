@@ -0,0 +1,56 @@
+import type { ProviderMetadata } from 'ai';
+
+// the smallest thinking budget Anthropic accepts
+const MIN_THINKING_BUDGET = 1024;
+
+// OpenAI only takes an effort, the budgets up to these reason with `low` and `medium` effort
+const LOW_EFFORT_BUDGET = 2048;
+const MEDIUM_EFFORT_BUDGET = 8192;
+
+/**
+ * Turns the thinking budget of a model into the options of its provider. Providers that don't take a budget,
+ * like DeepSeek, reason the same without it. Thinking takes at most half of the output limit `maxTokens`,
+ * so there is room left for the response.
+ *
+ * `thinkingTokens` is the part of the output limit Anthropic reserves for thinking on top of `maxTokens`.
+ */
+export function getReasoningOptions(
+  provider: string,
+  budget: number | undefined,
+  maxTokens: number,
+): { providerOptions?: ProviderMetadata; thinkingTokens: number } {
+  const maxBudget = Math.floor(maxTokens / 2);
+
+  if (!budget || maxBudget <= 0) {
+    return { thinkingTokens: 0 };
+  }
+
+  if (provider === 'Anthropic') {
+    // raising the budget to the minimum would leave no room for the response
+    if (maxBudget < MIN_THINKING_BUDGET) {
+      return { thinkingTokens: 0 };
+    }
+
+    const budgetTokens = Math.max(Math.min(budget, maxBudget), MIN_THINKING_BUDGET);
+
+    return {
+      providerOptions: { anthropic: { thinking: { type: 'enabled', budgetTokens } } },
+      thinkingTokens: budgetTokens,
+    };
+  }
+
+  if (provider === 'OpenAI') {
+    const effortBudget = Math.min(budget, maxBudget);
+    let reasoningEffort = 'high';
+
+    if (effortBudget <= LOW_EFFORT_BUDGET) {
+      reasoningEffort = 'low';
+    } else if (effortBudget <= MEDIUM_EFFORT_BUDGET) {
+      reasoningEffort = 'medium';
+    }
+
+    return { providerOptions: { openai: { reasoningEffort } }, thinkingTokens: 0 };
+  }
+
+  return { thinkingTokens: 0 };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createResumableStream, resumeStream } from './resumable-stream';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  let text = '';
+
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    text += decoder.decode(chunk, { stream: true });
+  }
+
+  return text;
+}
+
+function createSource(parts: string[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    },
+  });
+}
+
+describe('resumable-stream', () => {
+  it('resumes from an offset inside a chunk', async () => {
+    const { token, stream, done } = createResumableStream(createSource(['0:"Hello', ' world"\n', '0:"!"\n']));
+
+    await stream.cancel();
+    await done;
+
+    expect(await readAll(resumeStream(token, 3)!)).toBe('Hello world"\n0:"!"\n');
+  });
+
+  it('issues a new token for every stream', () => {
+    const first = createResumableStream(createSource([]));
+    const second = createResumableStream(createSource([]));
+
+    expect(first.token).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first.token).not.toBe(second.token);
+  });
+
+  it('returns undefined for unknown streams', () => {
+    expect(resumeStream('unknown', 0)).toBeUndefined();
+  });
+});
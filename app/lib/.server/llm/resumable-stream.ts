@@ -0,0 +1,171 @@
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('resumable-stream');
+
+// how long a stream can be resumed after it ended, to catch clients that reconnect late
+const RETENTION_TIME = 5 * 60 * 1000;
+
+interface BufferedStream {
+  chunks: Uint8Array[];
+  length: number;
+  done: boolean;
+  error?: unknown;
+
+  // readers waiting for more data
+  listeners: Set<() => void>;
+  source: ReadableStreamDefaultReader<Uint8Array>;
+}
+
+/*
+ * Streams are kept in the memory of the server instance, so a client can only resume a stream on the
+ * instance that started it. On Cloudflare Pages a resume request can be routed to another isolate, which
+ * doesn't know the stream and answers with a 404, so resuming is best effort there.
+ *
+ * The keys are random tokens issued with the response, only the client that made the request can resume
+ * or cancel it.
+ */
+const streams = new Map<string, BufferedStream>();
+
+function notify(entry: BufferedStream) {
+  for (const listener of entry.listeners) {
+    listener();
+  }
+}
+
+// everything buffered from `offset` on, or `undefined` when the reader has seen it all
+function readFrom(entry: BufferedStream, offset: number) {
+  if (offset >= entry.length) {
+    return undefined;
+  }
+
+  const result = new Uint8Array(entry.length - offset);
+  let start = 0;
+  let written = 0;
+
+  for (const chunk of entry.chunks) {
+    const end = start + chunk.length;
+
+    if (end > offset) {
+      const part = chunk.subarray(Math.max(0, offset - start));
+      result.set(part, written);
+      written += part.length;
+    }
+
+    start = end;
+  }
+
+  return result;
+}
+
+function createReader(entry: BufferedStream, offset: number) {
+  let position = offset;
+  let listener: (() => void) | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        const data = readFrom(entry, position);
+
+        if (data) {
+          position += data.length;
+          controller.enqueue(data);
+
+          return;
+        }
+
+        if (entry.error) {
+          controller.error(entry.error);
+          return;
+        }
+
+        if (entry.done) {
+          controller.close();
+          return;
+        }
+
+        await new Promise<void>((resolve) => {
+          const onData = () => {
+            entry.listeners.delete(onData);
+            listener = undefined;
+            resolve();
+          };
+
+          listener = onData;
+          entry.listeners.add(onData);
+        });
+      }
+    },
+
+    // the client went away, the stream itself keeps going so it can be resumed
+    cancel() {
+      if (listener) {
+        entry.listeners.delete(listener);
+      }
+    },
+  });
+}
+
+async function pump(token: string, entry: BufferedStream) {
+  try {
+    while (true) {
+      const { done, value } = await entry.source.read();
+
+      if (done) {
+        break;
+      }
+
+      entry.chunks.push(value);
+      entry.length += value.length;
+      notify(entry);
+    }
+  } catch (error) {
+    logger.error('Stream failed', error);
+    entry.error = error;
+  } finally {
+    entry.done = true;
+    notify(entry);
+    setTimeout(() => streams.delete(token), RETENTION_TIME);
+  }
+}
+
+/**
+ * Buffers a response under a new token, so a client that loses the connection can read it again from the
+ * last byte it received. The stream is read to the end even when no client is connected.
+ */
+export function createResumableStream(source: ReadableStream<Uint8Array>) {
+  const token = crypto.randomUUID();
+
+  const entry: BufferedStream = {
+    chunks: [],
+    length: 0,
+    done: false,
+    listeners: new Set(),
+    source: source.getReader(),
+  };
+
+  streams.set(token, entry);
+
+  return { token, stream: createReader(entry, 0), done: pump(token, entry) };
+}
+
+/**
+ * Reads a buffered stream from a byte offset on, or returns `undefined` for unknown or expired streams.
+ */
+export function resumeStream(token: string, offset: number) {
+  const entry = streams.get(token);
+
+  return entry && createReader(entry, offset);
+}
+
+/**
+ * Stops the generation of a stream, e.g. when the user stops the response.
+ */
+export async function cancelStream(token: string) {
+  const entry = streams.get(token);
+
+  if (!entry || entry.done) {
+    return;
+  }
+
+  await entry.source.cancel();
+}
@@ -1,8 +1,9 @@
 import { generateText, type CoreTool, type GenerateTextResult, type Message } from 'ai';
 import ignore from 'ignore';
-import type { IProviderSetting } from '~/types/model';
+import type { IProviderSetting, ModelReference } from '~/types/model';
+import type { ContextSelection } from '~/types/context';
 import { IGNORE_PATTERNS, type FileMap } from './constants';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
 import { createFilesContext, extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
 import { createScopedLogger } from '~/utils/logger';
 import { LLMManager } from '~/lib/modules/llm/manager';
@@ -12,6 +13,9 @@ import { LLMManager } from '~/lib/modules/llm/manager';
 const ig = ignore().add(IGNORE_PATTERNS);
 const logger = createScopedLogger('select-context');
 
+// files in the context buffer when they are picked by their embeddings alone
+const MAX_CONTEXT_FILES = 5;
+
 export async function selectContext(props: {
   messages: Message[];
   env?: Env;
@@ -20,10 +24,27 @@ export async function selectContext(props: {
   providerSettings?: Record<string, IProviderSetting>;
   promptId?: string;
   contextOptimization?: boolean;
+
+  // the model of the call, the model of the last user message when missing
+  model?: ModelReference;
   summary: string;
+  contextSelection?: ContextSelection;
+
+  // paths of the files most similar to the request, best first, when they were ranked by their embeddings
+  rankedFiles?: string[];
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
 }) {
-  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
+  const {
+    messages,
+    env: serverEnv,
+    apiKeys,
+    files,
+    providerSettings,
+    summary,
+    contextSelection = 'llm',
+    rankedFiles = [],
+    onFinish,
+  } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
@@ -38,7 +59,7 @@ export async function selectContext(props: {
 
       content = simplifyBoltActions(content);
 
-      content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
+      content = content.replace(/<div class="__boltThought__">.*?<\/div>/s, '');
       content = content.replace(/<think>.*?<\/think>/s, '');
 
       return { ...message, content };
@@ -47,7 +68,30 @@ export async function selectContext(props: {
     return message;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
+  if (props.model) {
+    currentModel = props.model.model;
+    currentProvider = props.model.provider;
+  }
+
+  const rankedPaths = contextSelection === 'llm' ? [] : rankedFiles.filter((path) => !!files[path]);
+
+  // without ranked files, e.g. when the embedding provider failed, the model picks the files instead
+  if (contextSelection === 'embeddings') {
+    const selectedPaths = getFilePaths(Object.fromEntries(rankedPaths.map((path) => [path, files[path]]))).slice(
+      0,
+      MAX_CONTEXT_FILES,
+    );
+
+    if (selectedPaths.length > 0) {
+      logger.info(`Selected ${selectedPaths.length} files by their embeddings`);
+
+      return Object.fromEntries(
+        selectedPaths.map((path) => [path.replace('/home/project/', ''), files[path]]),
+      ) as FileMap;
+    }
+  }
+
+  const provider = LLMManager.getInstance().getProvider(currentProvider) || DEFAULT_PROVIDER;
   const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
 
@@ -84,6 +128,15 @@ export async function selectContext(props: {
     return !ig.ignores(relPath);
   });
 
+  // the model picks from the most similar files only, which keeps the list short in big projects
+  if (contextSelection === 'hybrid') {
+    const candidates = rankedPaths.filter((path) => filePaths.includes(path));
+
+    if (candidates.length > 0) {
+      filePaths = candidates;
+    }
+  }
+
   let context = '';
   const currrentFiles: string[] = [];
   const contextFiles: FileMap = {};
@@ -1,14 +1,24 @@
-import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
-import { MAX_TOKENS, type FileMap } from './constants';
-import { getSystemPrompt } from '~/lib/common/prompts/prompts';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
-import type { IProviderSetting } from '~/types/model';
-import { PromptLibrary } from '~/lib/common/prompt-library';
+import { convertToCoreMessages, streamText as _streamText, type CoreSystemMessage, type Message } from 'ai';
+import { MAX_TOOL_STEPS, type FileMap } from './constants';
+import { getSystemPrompt, TOOL_CALLING_PROMPT } from '~/lib/common/prompts/prompts';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import type { IProviderSetting, ModelReference } from '~/types/model';
+import { PromptLibrary, renderPromptTemplate, type PromptOptions } from '~/lib/common/prompt-library';
+import { createRulesPrompt, getProjectRules } from '~/lib/common/project-rules';
+import { createPlanPrompt, PLAN_MODE_PROMPT, type ChatMode, type Plan } from '~/lib/common/plan';
 import { allowedHTMLElements } from '~/utils/markdown';
+import { CONTINUATION_MARKER } from '~/lib/runtime/message-parser';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { createFallbackModel, type FallbackCandidate } from '~/lib/modules/llm/fallback-model';
+import { hasCapability } from '~/lib/modules/llm/capabilities';
+import MockProvider from '~/lib/modules/llm/providers/mock';
 import { createScopedLogger } from '~/utils/logger';
-import { createFilesContext, extractPropertiesFromMessage } from './utils';
+import { createFilesContext, extractPropertiesFromMessage, getMaxOutputTokens, renderToolInvocations } from './utils';
 import { getFilePaths } from './select-context';
+import { createTools } from './tools';
+import { fitToTokenBudget, type TokenBudget } from './token-budget';
+import { getReasoningOptions } from './reasoning';
 
 export type Messages = Message[];
 
@@ -25,6 +35,9 @@ export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0]
 
 const logger = createScopedLogger('stream-text');
 
+// lets Anthropic cache the prompt up to and including a message, other providers cache prefixes on their own
+const CACHE_CONTROL = { anthropic: { cacheControl: { type: 'ephemeral' } } };
+
 export async function streamText(props: {
   messages: Omit<Message, 'id'>[];
   env?: Env;
@@ -33,10 +46,24 @@ export async function streamText(props: {
   files?: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
   promptId?: string;
+
+  // the template of a user prompt, used instead of the prompt of the library
+  promptTemplate?: string;
   contextOptimization?: boolean;
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
+  toolCalling?: boolean;
+  fallbackModels?: ModelReference[];
+  chatMode?: ChatMode;
+
+  // the plan the user approved, built by this response
+  plan?: Plan;
+
+  // the tokens the model may think for, unset to leave reasoning to the provider's default
+  thinkingBudget?: number;
+  onModelSelected?: (model: ModelReference) => void;
+  onTokenBudget?: (budget: TokenBudget) => void;
 }) {
   const {
     messages,
@@ -46,13 +73,24 @@ export async function streamText(props: {
     files,
     providerSettings,
     promptId,
+    promptTemplate,
     contextOptimization,
     contextFiles,
     summary,
+    toolCalling,
+    fallbackModels = [],
+    chatMode,
+    plan,
+    thinkingBudget,
+    onModelSelected,
+    onTokenBudget,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
-  let processedMessages = messages.map((message) => {
+  let processedMessages = messages.map((original) => {
+    // the history is sent as content and tool invocations, the parts would also send the reasoning back
+    const message = { ...original, parts: undefined, reasoning: undefined };
+
     if (message.role === 'user') {
       const { model, provider, content } = extractPropertiesFromMessage(message);
       currentModel = model;
@@ -61,64 +99,156 @@ export async function streamText(props: {
       return { ...message, content };
     } else if (message.role == 'assistant') {
       let content = message.content;
-      content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
+      content = content.replace(/<div class="__boltThought__">.*?<\/div>/s, '');
       content = content.replace(/<think>.*?<\/think>/s, '');
+      content = content.replaceAll(CONTINUATION_MARKER, '');
 
-      return { ...message, content };
+      if (!toolCalling) {
+        const toolArtifact = renderToolInvocations(message);
+
+        return {
+          ...message,
+          content: toolArtifact ? `${content}\n${toolArtifact}` : content,
+          toolInvocations: undefined,
+        };
+      }
+
+      // calls without a result can't be sent back, e.g. when the response was aborted
+      return {
+        ...message,
+        content,
+        toolInvocations: message.toolInvocations?.filter((invocation) => invocation.state === 'result'),
+      };
     }
 
     return message;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
-  let modelDetails = staticModels.find((m) => m.name === currentModel);
-
-  if (!modelDetails) {
-    const modelsList = [
-      ...(provider.staticModels || []),
-      ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
-        apiKeys,
-        providerSettings,
-        serverEnv: serverEnv as any,
-      })),
-    ];
-
-    if (!modelsList.length) {
-      throw new Error(`No models found for provider ${provider.name}`);
-    }
+  const llmManager = LLMManager.getInstance();
+  const provider = llmManager.getProvider(currentProvider) || DEFAULT_PROVIDER;
+  const modelDetails = await llmManager.resolveModel(provider, currentModel, {
+    apiKeys,
+    providerSettings,
+    serverEnv: serverEnv as any,
+  });
 
-    modelDetails = modelsList.find((m) => m.name === currentModel);
+  const createModel = (candidate: BaseProvider, model: string) => () => {
+    const instance = candidate.getModelInstance({ model, serverEnv, apiKeys, providerSettings });
 
-    if (!modelDetails) {
-      // Fallback to first model
-      logger.warn(
-        `MODEL [${currentModel}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
-      );
-      modelDetails = modelsList[0];
+    return candidate instanceof MockProvider
+      ? instance
+      : MockProvider.record(instance, { provider: candidate.name, model, serverEnv });
+  };
+
+  const candidates: FallbackCandidate[] = [
+    { provider: provider.name, model: modelDetails.name, createModel: createModel(provider, modelDetails.name) },
+  ];
+
+  for (const fallback of fallbackModels) {
+    const fallbackProvider = llmManager.getProvider(fallback.provider);
+
+    if (!fallbackProvider) {
+      logger.warn(`Skipping fallback model ${fallback.model}: provider ${fallback.provider} not found`);
+      continue;
     }
+
+    if (candidates.some((c) => c.provider === fallback.provider && c.model === fallback.model)) {
+      continue;
+    }
+
+    const fallbackDetails = llmManager
+      .getStaticModelListFromProvider(fallbackProvider)
+      .find((m) => m.name === fallback.model);
+
+    candidates.push({
+      ...fallback,
+      maxTokens: fallbackDetails && getMaxOutputTokens(fallbackDetails),
+      createModel: createModel(fallbackProvider, fallback.model),
+    });
   }
 
-  const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
+  const dynamicMaxTokens = getMaxOutputTokens(modelDetails);
+
+  const { providerOptions, thinkingTokens } = getReasoningOptions(provider.name, thinkingBudget, dynamicMaxTokens);
+
+  const promptOptions: PromptOptions = {
+    cwd: WORK_DIR,
+    allowedHtmlElements: allowedHTMLElements,
+    modificationTagName: MODIFICATIONS_TAG_NAME,
+    supabase: {
+      isConnected: options?.supabaseConnection?.isConnected || false,
+      hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
+      credentials: options?.supabaseConnection?.credentials || undefined,
+    },
+  };
 
   let systemPrompt =
-    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
-      cwd: WORK_DIR,
-      allowedHtmlElements: allowedHTMLElements,
-      modificationTagName: MODIFICATIONS_TAG_NAME,
-      supabase: {
-        isConnected: options?.supabaseConnection?.isConnected || false,
-        hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
-        credentials: options?.supabaseConnection?.credentials || undefined,
-      },
-    }) ?? getSystemPrompt();
-
-  if (files && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
-    const filePaths = getFilePaths(files);
-
-    systemPrompt = `${systemPrompt}
-Below are all the files present in the project:
+    (promptTemplate
+      ? renderPromptTemplate(promptTemplate, promptOptions)
+      : PromptLibrary.getPropmtFromLibrary(promptId || 'default', promptOptions)) ?? getSystemPrompt();
+
+  if (toolCalling) {
+    systemPrompt = `${systemPrompt}\n${TOOL_CALLING_PROMPT}`;
+  }
+
+  const projectRules = files && getProjectRules(files);
+
+  if (projectRules) {
+    systemPrompt = `${systemPrompt}\n${createRulesPrompt(projectRules)}`;
+  }
+
+  if (chatMode === 'plan') {
+    systemPrompt = `${systemPrompt}\n${PLAN_MODE_PROMPT}`;
+  } else if (plan) {
+    systemPrompt = `${systemPrompt}\n${createPlanPrompt(plan)}`;
+  }
+
+  const useContextBuffer = !!(files && contextFiles && contextOptimization);
+
+  if (useContextBuffer && summary) {
+    if (props.messageSliceId) {
+      processedMessages = processedMessages.slice(props.messageSliceId);
+    } else {
+      const lastMessage = processedMessages.pop();
+
+      if (lastMessage) {
+        processedMessages = [lastMessage];
+      }
+    }
+  }
+
+  const filePaths = files && useContextBuffer ? getFilePaths(files) : [];
+  const fitted = fitToTokenBudget({
+    contextWindow: modelDetails.contextWindow,
+    maxOutputTokens: dynamicMaxTokens,
+    systemPrompt,
+    summary: useContextBuffer ? summary : undefined,
+    filePaths,
+    contextFiles: useContextBuffer ? contextFiles : undefined,
+    messages: processedMessages,
+  });
+
+  processedMessages = fitted.messages;
+  onTokenBudget?.(fitted.budget);
+
+  if (fitted.budget.trimmedMessages > 0 || fitted.budget.trimmedFiles > 0) {
+    logger.warn(
+      `Left out ${fitted.budget.trimmedMessages} messages and ${fitted.budget.trimmedFiles} context files to fit the context window of ${modelDetails.name}`,
+    );
+  }
+
+  /*
+   * The system prompt is sent in parts, from the most to the least stable, so that providers with prompt
+   * caching can reuse the prompt and the context buffer across the turns of a chat.
+   */
+  const systemPrompts: CoreSystemMessage[] = [];
+
+  if (useContextBuffer) {
+    const codeContext = createFilesContext(fitted.contextFiles ?? {}, true);
+
+    systemPrompts.push({
+      role: 'system',
+      content: `Below are all the files present in the project:
 ---
 ${filePaths.join('\n')}
 ---
@@ -128,43 +258,53 @@ CONTEXT BUFFER:
 ---
 ${codeContext}
 ---
-`;
+`,
+      experimental_providerMetadata: CACHE_CONTROL,
+    });
 
     if (summary) {
-      systemPrompt = `${systemPrompt}
-      below is the chat history till now
+      systemPrompts.push({
+        role: 'system',
+        content: `below is the chat history till now
 CHAT SUMMARY:
 ---
 ${props.summary}
 ---
-`;
-
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
-
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
-      }
+`,
+      });
     }
   }
 
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
 
+  if (candidates.length > 1) {
+    logger.info(`Falling back to ${candidates.length - 1} other models on errors`);
+  }
+
   // console.log(systemPrompt,processedMessages);
 
+  const promptCaching = hasCapability(modelDetails, 'promptCaching');
+  const coreMessages = convertToCoreMessages(processedMessages as any);
+
+  if (promptCaching) {
+    coreMessages.unshift(
+      { role: 'system', content: systemPrompt, experimental_providerMetadata: CACHE_CONTROL },
+      ...systemPrompts,
+    );
+  }
+
   return await _streamText({
-    model: provider.getModelInstance({
-      model: modelDetails.name,
-      serverEnv,
-      apiKeys,
-      providerSettings,
+    model: createFallbackModel(candidates, {
+      onModelSelected: ({ provider, model }) => onModelSelected?.({ provider, model }),
     }),
-    system: systemPrompt,
-    maxTokens: dynamicMaxTokens,
-    messages: convertToCoreMessages(processedMessages as any),
+    system: promptCaching ? undefined : [systemPrompt, ...systemPrompts.map((message) => message.content)].join('\n'),
+    maxTokens: dynamicMaxTokens - thinkingTokens,
+    messages: coreMessages,
+    providerOptions,
+    ...(toolCalling ? { tools: createTools(files), maxSteps: MAX_TOOL_STEPS, toolCallStreaming: true } : {}),
+
+    // the fallback model retries rate limits and server errors itself
+    maxRetries: 0,
     ...options,
   });
 }
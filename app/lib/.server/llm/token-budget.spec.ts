@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { fitToTokenBudget } from './token-budget';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+// about 1000 tokens, a word with its leading space is one token
+const longText = ' word'.repeat(1000);
+
+describe('fitToTokenBudget', () => {
+  it('should keep everything when the prompt fits', () => {
+    const messages = [
+      { role: 'user' as const, content: 'hello' },
+      { role: 'assistant' as const, content: 'hi' },
+      { role: 'user' as const, content: 'build an app' },
+    ];
+
+    const { messages: fitted, budget } = fitToTokenBudget({
+      contextWindow: 100_000,
+      maxOutputTokens: 8000,
+      systemPrompt: 'You are Bolt',
+      messages,
+    });
+
+    expect(fitted).toEqual(messages);
+    expect(budget.trimmedMessages).toBe(0);
+    expect(budget.total).toBe(budget.systemPrompt + budget.history);
+  });
+
+  it('should drop the oldest messages and then the last picked files', () => {
+    const messages = [
+      { role: 'user' as const, content: longText },
+      { role: 'assistant' as const, content: longText },
+      { role: 'user' as const, content: 'change the button' },
+    ];
+
+    const {
+      messages: fitted,
+      contextFiles,
+      budget,
+    } = fitToTokenBudget({
+      contextWindow: 3000,
+      maxOutputTokens: 1000,
+      systemPrompt: 'You are Bolt',
+      contextFiles: { 'src/App.tsx': file(longText), 'src/Button.tsx': file(longText) },
+      messages,
+    });
+
+    expect(fitted).toEqual([messages[2]]);
+    expect(Object.keys(contextFiles ?? {})).toEqual(['src/App.tsx']);
+    expect(budget).toMatchObject({ trimmedMessages: 2, trimmedFiles: 1 });
+    expect(budget.total).toBeLessThanOrEqual(3000 * 0.95 - 1000);
+  });
+
+  it('should not trim for models with an unknown context window', () => {
+    const { budget } = fitToTokenBudget({
+      maxOutputTokens: 1000,
+      systemPrompt: longText,
+      messages: [{ role: 'user', content: longText }],
+    });
+
+    expect(budget).toMatchObject({ contextWindow: undefined, trimmedMessages: 0, trimmedFiles: 0 });
+  });
+});
@@ -0,0 +1,100 @@
+import { type Message } from 'ai';
+import { countTokens } from 'gpt-tokenizer';
+import type { TokenBudgetAnnotation } from '~/types/context';
+import type { FileMap } from './constants';
+import { createFilesContext } from './utils';
+
+// providers bill images by their size, which the server doesn't know, this is about a 1000x1000 image
+const IMAGE_TOKENS = 1500;
+
+// the tokenizer of OpenAI only estimates the tokens of other models, so part of the window is kept free
+const SAFETY_MARGIN = 0.05;
+
+export type TokenBudget = Omit<TokenBudgetAnnotation, 'type'>;
+
+type BudgetMessage = Omit<Message, 'id'>;
+
+export function countMessageTokens(message: BudgetMessage) {
+  let tokens = 0;
+
+  if (typeof message.content === 'string') {
+    tokens += countTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content as Array<{ type: string; text?: string }>) {
+      tokens += part.type === 'text' ? countTokens(part.text ?? '') : IMAGE_TOKENS;
+    }
+  }
+
+  tokens += (message.experimental_attachments ?? []).length * IMAGE_TOKENS;
+
+  if (message.toolInvocations?.length) {
+    tokens += countTokens(JSON.stringify(message.toolInvocations));
+  }
+
+  return tokens;
+}
+
+/**
+ * Fits the prompt into the context window of a model, leaving room for its response. The oldest messages are
+ * dropped first, then the context files picked last, while the last message is always kept. Nothing
+ * is dropped for models with an unknown context window.
+ */
+export function fitToTokenBudget<T extends BudgetMessage>(options: {
+  contextWindow?: number;
+  maxOutputTokens: number;
+  systemPrompt: string;
+  summary?: string;
+  filePaths?: string[];
+  contextFiles?: FileMap;
+  messages: T[];
+}): { messages: T[]; contextFiles?: FileMap; budget: TokenBudget } {
+  const { contextWindow, maxOutputTokens, systemPrompt, summary, filePaths = [] } = options;
+
+  const systemPromptTokens = countTokens(systemPrompt);
+  const summaryTokens = summary ? countTokens(summary) : 0;
+  const filePathTokens = countTokens(filePaths.join('\n'));
+
+  let messages = options.messages.map((message) => ({ message, tokens: countMessageTokens(message) }));
+  let files = Object.entries(options.contextFiles ?? {}).map(([path, dirent]) => ({
+    path,
+    dirent,
+    tokens: countTokens(createFilesContext({ [path]: dirent }, true)),
+  }));
+
+  const sum = (entries: Array<{ tokens: number }>) => entries.reduce((total, entry) => total + entry.tokens, 0);
+  const total = () => systemPromptTokens + summaryTokens + filePathTokens + sum(files) + sum(messages);
+
+  const available = contextWindow ? Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxOutputTokens : Infinity;
+  const messageCount = messages.length;
+  const fileCount = files.length;
+
+  while (total() > available && messages.length > 1) {
+    messages = messages.slice(1);
+
+    // a conversation starts with a request of the user
+    while (messages.length > 1 && messages[0].message.role !== 'user') {
+      messages = messages.slice(1);
+    }
+  }
+
+  // the files are in the order they were picked in, the most similar first with embeddings, see `selectContext`
+  while (total() > available && files.length > 0) {
+    files = files.slice(0, -1);
+  }
+
+  return {
+    messages: messages.map((entry) => entry.message),
+    contextFiles: options.contextFiles && Object.fromEntries(files.map((file) => [file.path, file.dirent])),
+    budget: {
+      contextWindow,
+      maxOutputTokens,
+      systemPrompt: systemPromptTokens,
+      summary: summaryTokens,
+      contextFiles: filePathTokens + sum(files),
+      history: sum(messages),
+      total: total(),
+      trimmedMessages: messageCount - messages.length,
+      trimmedFiles: fileCount - files.length,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { tool, type CoreTool } from 'ai';
+import { z } from 'zod';
+import { TOOL_NAMES } from '~/lib/common/tools';
+import { WORK_DIR } from '~/utils/constants';
+import type { FileMap } from './constants';
+import { readProject } from './project-reader';
+
+/**
+ * Tools that replace the `<boltArtifact>` protocol for models with native tool calling. File writes and
+ * commands are carried out by the client from the tool calls in the message, the results only tell the
+ * model that they were received. Reads are resolved against the files sent with the request.
+ */
+export function createTools(files: FileMap = {}): Record<string, CoreTool> {
+  return {
+    [TOOL_NAMES.WRITE_FILE]: tool({
+      description: 'Create or overwrite a file in the project with its complete new content.',
+      parameters: z.object({
+        filePath: z.string().describe(`Path of the file relative to ${WORK_DIR}`),
+        content: z.string().describe('The complete content of the file, never truncated'),
+      }),
+      execute: async ({ filePath }) => `Wrote ${filePath}`,
+    }),
+    [TOOL_NAMES.RUN_COMMAND]: tool({
+      description: 'Run a shell command in the project directory, e.g. to install dependencies or start a dev server.',
+      parameters: z.object({
+        command: z.string().describe('The command to run'),
+        startsServer: z
+          .boolean()
+          .optional()
+          .describe('Whether the command starts a long-running dev server, only true for the last command'),
+      }),
+      execute: async ({ command }) => `Queued \`${command}\`, its output is not available`,
+    }),
+    [TOOL_NAMES.READ_FILE]: tool({
+      description: 'Read the current content of a file in the project.',
+      parameters: z.object({
+        filePath: z.string().describe(`Path of the file relative to ${WORK_DIR}`),
+      }),
+      execute: async ({ filePath }) => readProject(files, { operation: 'file', path: filePath }),
+    }),
+    [TOOL_NAMES.LIST_DIRECTORY]: tool({
+      description: 'List the files and folders in a directory of the project, folders end with a slash.',
+      parameters: z.object({
+        path: z.string().describe(`Path of the directory relative to ${WORK_DIR}, empty for the project root`),
+      }),
+      execute: async ({ path }) => readProject(files, { operation: 'list', path }),
+    }),
+    [TOOL_NAMES.GREP]: tool({
+      description: 'Search the lines of the project files for a regular expression.',
+      parameters: z.object({
+        pattern: z.string().describe('The regular expression to search for'),
+        path: z.string().optional().describe('Only search in this directory'),
+      }),
+      execute: async ({ pattern, path = '' }) => readProject(files, { operation: 'grep', path, pattern }),
+    }),
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelUsage } from '~/types/context';
+import { addUsage, calculateCost } from './usage';
+
+const model = { provider: 'Anthropic', model: 'claude' };
+
+describe('addUsage', () => {
+  it('should count the cached tokens Anthropic leaves out of the prompt tokens', () => {
+    const entries: ModelUsage[] = [];
+
+    addUsage(entries, model, { promptTokens: 100, completionTokens: 50, totalTokens: 150 }, [
+      { anthropic: { cacheReadInputTokens: 2000, cacheCreationInputTokens: 0 } },
+      { anthropic: { cacheReadInputTokens: 2000, cacheCreationInputTokens: 500 } },
+    ]);
+
+    expect(entries).toEqual([
+      { ...model, promptTokens: 4600, completionTokens: 50, cacheReadTokens: 4000, cacheWriteTokens: 500 },
+    ]);
+  });
+
+  it('should not count the cached tokens OpenAI includes in the prompt tokens twice', () => {
+    const entries: ModelUsage[] = [];
+
+    addUsage(entries, model, { promptTokens: 3000, completionTokens: 50, totalTokens: 3050 }, [
+      { openai: { cachedPromptTokens: 2048 } },
+    ]);
+
+    expect(entries[0]).toMatchObject({ promptTokens: 3000, cacheReadTokens: 2048, cacheWriteTokens: 0 });
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price cached tokens at the cache prices', () => {
+    const pricing = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+    const usage = { promptTokens: 4600, completionTokens: 50, cacheReadTokens: 4000, cacheWriteTokens: 500 };
+
+    expect(calculateCost(pricing, usage)).toBeCloseTo((100 * 3 + 4000 * 0.3 + 500 * 3.75 + 50 * 15) / 1_000_000);
+  });
+});
@@ -0,0 +1,122 @@
+import type { LanguageModelUsage, ProviderMetadata } from 'ai';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { ModelPricing } from '~/lib/modules/llm/types';
+import type { ModelUsage, UsageAnnotation } from '~/types/context';
+import type { IProviderSetting, ModelReference } from '~/types/model';
+
+/**
+ * Reads the prompt cache usage that providers report in their metadata. Anthropic leaves cached tokens out of
+ * the prompt tokens, OpenAI and DeepSeek count them in.
+ */
+export function getCacheUsage(providerMetadata?: ProviderMetadata) {
+  const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+  const { anthropic, openai, deepseek } = providerMetadata ?? {};
+
+  if (anthropic) {
+    return {
+      cacheReadTokens: count(anthropic.cacheReadInputTokens),
+      cacheWriteTokens: count(anthropic.cacheCreationInputTokens),
+      includedInPrompt: false,
+    };
+  }
+
+  return {
+    cacheReadTokens: count(openai?.cachedPromptTokens) + count(deepseek?.promptCacheHitTokens),
+    cacheWriteTokens: 0,
+    includedInPrompt: true,
+  };
+}
+
+/**
+ * Adds the usage of a call to the entry of its model. The provider metadata of each step of the call has the
+ * prompt cache usage.
+ */
+export function addUsage(
+  entries: ModelUsage[],
+  { provider, model }: ModelReference,
+  usage?: LanguageModelUsage,
+  providerMetadata: (ProviderMetadata | undefined)[] = [],
+) {
+  if (!usage) {
+    return;
+  }
+
+  let entry = entries.find((e) => e.provider === provider && e.model === model);
+
+  if (!entry) {
+    entry = { provider, model, promptTokens: 0, completionTokens: 0 };
+    entries.push(entry);
+  }
+
+  entry.promptTokens += usage.promptTokens || 0;
+  entry.completionTokens += usage.completionTokens || 0;
+
+  for (const metadata of providerMetadata) {
+    const { cacheReadTokens, cacheWriteTokens, includedInPrompt } = getCacheUsage(metadata);
+
+    if (!cacheReadTokens && !cacheWriteTokens) {
+      continue;
+    }
+
+    entry.cacheReadTokens = (entry.cacheReadTokens ?? 0) + cacheReadTokens;
+    entry.cacheWriteTokens = (entry.cacheWriteTokens ?? 0) + cacheWriteTokens;
+
+    if (!includedInPrompt) {
+      entry.promptTokens += cacheReadTokens + cacheWriteTokens;
+    }
+  }
+}
+
+export function calculateCost(
+  pricing: ModelPricing,
+  usage: Pick<ModelUsage, 'promptTokens' | 'completionTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>,
+) {
+  const { cacheReadTokens = 0, cacheWriteTokens = 0 } = usage;
+  const uncachedTokens = usage.promptTokens - cacheReadTokens - cacheWriteTokens;
+
+  return (
+    (uncachedTokens * pricing.input +
+      cacheReadTokens * (pricing.cacheRead ?? pricing.input) +
+      cacheWriteTokens * (pricing.cacheWrite ?? pricing.input) +
+      usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Prices the usage of each model and sums it up for the usage annotation of a response. The total cost is
+ * only set when the pricing of every model is known.
+ */
+export async function createUsageAnnotation(
+  entries: ModelUsage[],
+  options: {
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+    serverEnv?: Record<string, string>;
+  },
+): Promise<UsageAnnotation> {
+  const models = await Promise.all(
+    entries.map(async (entry) => {
+      const pricing = await LLMManager.getInstance().getModelPricing(entry.provider, entry.model, options);
+      return pricing ? { ...entry, cost: calculateCost(pricing, entry) } : entry;
+    }),
+  );
+
+  const promptTokens = models.reduce((sum, entry) => sum + entry.promptTokens, 0);
+  const completionTokens = models.reduce((sum, entry) => sum + entry.completionTokens, 0);
+  const cacheReadTokens = models.reduce((sum, entry) => sum + (entry.cacheReadTokens ?? 0), 0);
+  const cacheWriteTokens = models.reduce((sum, entry) => sum + (entry.cacheWriteTokens ?? 0), 0);
+  const priced = models.every((entry) => entry.cost !== undefined);
+
+  return {
+    type: 'usage',
+    value: {
+      completionTokens,
+      promptTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...(cacheReadTokens || cacheWriteTokens ? { cacheReadTokens, cacheWriteTokens } : {}),
+      cost: priced && models.length > 0 ? models.reduce((sum, entry) => sum + (entry.cost ?? 0), 0) : undefined,
+      models,
+    },
+  };
+}
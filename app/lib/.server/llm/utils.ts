@@ -1,8 +1,10 @@
-import { type Message } from 'ai';
+import { generateId, type Message } from 'ai';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
-import { IGNORE_PATTERNS, type FileMap } from './constants';
+import { IGNORE_PATTERNS, MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from './constants';
 import ignore from 'ignore';
 import type { ContextAnnotation } from '~/types/context';
+import { getToolAction, getToolArtifact } from '~/lib/common/tools';
+import type { ModelInfo } from '~/lib/modules/llm/types';
 
 export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
   model: string;
@@ -44,6 +46,21 @@ export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
   return { model, provider, content: cleanedContent };
 }
 
+/**
+ * The number of tokens a model may generate in one response. `maxTokenAllowed` is only used for models that
+ * don't declare `maxOutputTokens`.
+ */
+export function getMaxOutputTokens(model?: ModelInfo) {
+  return model?.maxOutputTokens || model?.maxTokenAllowed || MAX_TOKENS;
+}
+
+/**
+ * The number of times a response of a model is continued after it hit the output limit.
+ */
+export function getMaxResponseSegments(model?: ModelInfo) {
+  return model?.maxResponseSegments ?? MAX_RESPONSE_SEGMENTS;
+}
+
 export function simplifyBoltActions(input: string): string {
   // Using regex to match boltAction tags that have type="file"
   const regex = /(<boltAction[^>]*type="file"[^>]*>)([\s\S]*?)(<\/boltAction>)/g;
@@ -54,6 +71,33 @@ export function simplifyBoltActions(input: string): string {
   });
 }
 
+/**
+ * Renders the actions of native tool calls as an artifact, so the history stays consistent for models
+ * that use the `<boltArtifact>` protocol.
+ */
+export function renderToolInvocations(message: Omit<Message, 'id'> & { id?: string }) {
+  const actions = (message.toolInvocations ?? [])
+    .map((invocation) => getToolAction(invocation.toolName, invocation.args))
+    .map((action) => {
+      if (action?.type === 'file') {
+        return `<boltAction type="file" filePath="${action.filePath}">\n${action.content}\n</boltAction>`;
+      } else if (action?.type === 'shell' || action?.type === 'start') {
+        return `<boltAction type="${action.type}">${action.content}</boltAction>`;
+      }
+
+      return undefined;
+    })
+    .filter(Boolean);
+
+  if (actions.length === 0) {
+    return '';
+  }
+
+  const { id, title } = getToolArtifact(message.id ?? generateId());
+
+  return `<boltArtifact id="${id}" title="${title}">\n${actions.join('\n')}\n</boltArtifact>`;
+}
+
 export function createFilesContext(files: FileMap, useRelativePath?: boolean) {
   const ig = ignore().add(IGNORE_PATTERNS);
   let filePaths = Object.keys(files);
@@ -0,0 +1,107 @@
+import { RESUME_TOKEN_HEADER } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ChatStream');
+
+const MAX_RETRIES = 5;
+const RETRY_DELAY = 1000;
+
+function cancelStream(token: string) {
+  fetch(`/api/chat-stream?token=${encodeURIComponent(token)}`, { method: 'DELETE' }).catch((error) =>
+    logger.error('Failed to cancel stream', error),
+  );
+}
+
+/**
+ * Reads the response body, and when the connection drops reads the rest of the response from the server
+ * buffer, starting at the last byte that arrived.
+ */
+function createResumingBody(token: string, body: ReadableStream<Uint8Array>, signal?: AbortSignal | null) {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined = body.getReader();
+  let offset = 0;
+  let retries = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        try {
+          if (!reader) {
+            const response = await fetch(`/api/chat-stream?token=${encodeURIComponent(token)}&offset=${offset}`, {
+              signal,
+            });
+
+            /*
+             * the buffer expired or lives on another server instance, the message keeps what arrived so far
+             * and the user can ask to continue
+             */
+            if (response.status === 404) {
+              controller.error(new Error('The connection was lost and the response can no longer be resumed'));
+              return;
+            }
+
+            if (!response.ok || !response.body) {
+              throw new Error(`Failed to resume the response: ${response.statusText}`);
+            }
+
+            reader = response.body.getReader();
+            logger.info(`Resumed stream at byte ${offset}`);
+          }
+
+          const { done, value } = await reader.read();
+
+          if (done) {
+            controller.close();
+            return;
+          }
+
+          offset += value.length;
+          retries = 0;
+          controller.enqueue(value);
+
+          return;
+        } catch (error) {
+          if (signal?.aborted || retries >= MAX_RETRIES) {
+            throw error;
+          }
+
+          retries++;
+          reader = undefined;
+          logger.warn(`Connection lost, retrying (${retries}/${MAX_RETRIES})`, error);
+
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY * 2 ** (retries - 1)));
+        }
+      }
+    },
+
+    cancel(reason) {
+      return reader?.cancel(reason);
+    },
+  });
+}
+
+/**
+ * A `fetch` for the chat that survives network drops: the server buffers the response under a token it
+ * returns, and the body reconnects to the buffer when the connection is lost. The chat sees a single
+ * uninterrupted response, so the message and its parser simply continue where they stopped.
+ */
+export const resumableFetch: typeof fetch = async (input, init) => {
+  if (typeof init?.body !== 'string') {
+    return fetch(input, init);
+  }
+
+  const response = await fetch(input, { ...init, body: JSON.stringify({ ...JSON.parse(init.body), resumable: true }) });
+  const token = response.headers.get(RESUME_TOKEN_HEADER);
+
+  if (!response.ok || !response.body || !token) {
+    return response;
+  }
+
+  // the server generates the response to the end without a client, unless it is told to stop
+  init.signal?.addEventListener('abort', () => cancelStream(token), { once: true });
+
+  return new Response(createResumingBody(token, response.body, init.signal), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getCompletedSteps, parsePlan, removePlanMarkup } from './plan';
+
+const response = `Here is the plan.
+
+<boltPlan>
+## Files
+- src/App.tsx: add the routes
+## Packages
+- react-router-dom
+## Steps
+1. Install the router
+2. Add the routes
+</boltPlan>`;
+
+describe('plan', () => {
+  it('parses the sections of a plan', () => {
+    expect(parsePlan(response)).toEqual({
+      plan: {
+        files: ['src/App.tsx: add the routes'],
+        packages: ['react-router-dom'],
+        steps: ['Install the router', 'Add the routes'],
+      },
+      complete: true,
+    });
+  });
+
+  it('parses a plan that still streams', () => {
+    const result = parsePlan(response.slice(0, response.indexOf('2.')));
+
+    expect(result?.complete).toBe(false);
+    expect(result?.plan.steps).toEqual(['Install the router']);
+  });
+
+  it('finds and removes step markers', () => {
+    const build = 'Installing.\n<boltPlanStep index="1" />\nRouting.\n<boltPlanStep index="2"/>';
+
+    expect(getCompletedSteps(build)).toEqual([1, 2]);
+    expect(removePlanMarkup(build)).toBe('Installing.\n\nRouting.\n');
+    expect(removePlanMarkup(response)).toBe('Here is the plan.\n\n');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * `plan` asks the model for a plan of the request instead of building it, `build` is the regular chat.
+ */
+export type ChatMode = 'plan' | 'build';
+
+export interface Plan {
+  // the files to create or change, each with what changes in it
+  files: string[];
+  packages: string[];
+  steps: string[];
+}
+
+// the closing tag is missing while the plan streams
+const PLAN_REGEX = /<boltPlan>([\s\S]*?)(?:<\/boltPlan>|$)/;
+const STEP_MARKER_REGEX = /<boltPlanStep\s+index="(\d+)"\s*\/>/g;
+
+const SECTIONS: Record<string, keyof Plan> = {
+  files: 'files',
+  packages: 'packages',
+  steps: 'steps',
+};
+
+export const PLAN_MODE_PROMPT = `<plan_mode>
+  The user reviews a plan before anything is built. Do NOT write files, run commands or create artifacts in
+  this response. Answer with a short introduction followed by the plan in exactly this format:
+
+<boltPlan>
+## Files
+- path/to/file.ts: what changes in the file
+## Packages
+- package-name
+## Steps
+1. A step that can be checked off on its own
+</boltPlan>
+
+  Leave out a section without entries. List the steps in the order they are built.
+</plan_mode>`;
+
+/**
+ * Returns the plan of a response, `complete` is false while the plan still streams.
+ */
+export function parsePlan(content: string) {
+  const match = content.match(PLAN_REGEX);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const plan: Plan = { files: [], packages: [], steps: [] };
+  let section: keyof Plan | undefined;
+
+  for (const line of match[1].split('\n')) {
+    const heading = line.match(/^\s*#+\s*(\w+)/);
+
+    if (heading) {
+      section = SECTIONS[heading[1].toLowerCase()];
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:[-*]|\d+[.)])\s+(.+)$/);
+
+    if (section && item) {
+      plan[section].push(item[1].trim());
+    }
+  }
+
+  return { plan, complete: match[0].endsWith('</boltPlan>') };
+}
+
+/**
+ * Removes the plan and the step markers from a response, they are shown as a checklist and as progress.
+ */
+export function removePlanMarkup(content: string) {
+  return content.replace(PLAN_REGEX, '').replace(STEP_MARKER_REGEX, '');
+}
+
+/**
+ * Returns the numbers of the steps the model marked as done in a response.
+ */
+export function getCompletedSteps(response: string) {
+  return Array.from(response.matchAll(STEP_MARKER_REGEX), (match) => Number(match[1]));
+}
+
+export function formatPlan(plan: Plan) {
+  const sections = [
+    plan.files.length > 0 && `Files:\n${plan.files.map((file) => `- ${file}`).join('\n')}`,
+    plan.packages.length > 0 && `Packages:\n${plan.packages.map((name) => `- ${name}`).join('\n')}`,
+    plan.steps.length > 0 && `Steps:\n${plan.steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`,
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+export function createPlanPrompt(plan: Plan) {
+  return `<approved_plan>
+  The user approved the plan below, possibly after editing it. Build it now and stick to it, leave out what
+  is not in it. Right after finishing a step, write <boltPlanStep index="N" /> on its own line outside of
+  any artifact, with N the number of the step.
+
+${formatPlan(plan)}
+</approved_plan>`;
+}
@@ -0,0 +1,51 @@
+import type { Message } from 'ai';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+import { filesToArtifacts } from '~/utils/fileUtils';
+
+/**
+ * Conventions of the project the model follows in every chat, kept with the project files so they are
+ * carried along wherever the project goes.
+ */
+export const PROJECT_RULES_PATH = `${WORK_DIR}/.bolt/rules.md`;
+
+export const PROJECT_RULES_TEMPLATE = `# Project Rules
+
+<!-- The model follows these rules in every request of the chat, e.g. -->
+- Use pnpm to install packages
+`;
+
+export function getProjectRules(files: FileMap) {
+  const dirent = files[PROJECT_RULES_PATH];
+
+  if (dirent?.type !== 'file' || dirent.isBinary) {
+    return undefined;
+  }
+
+  // the template comments explain the file to the user, not to the model
+  const rules = dirent.content.replace(/<!--[\s\S]*?-->/g, '').trim();
+
+  return rules || undefined;
+}
+
+export function createRulesPrompt(rules: string) {
+  return `<project_rules>
+  The user set the rules below for this project. Follow them in every response, they take precedence over
+  the conventions above where they conflict.
+
+${rules}
+</project_rules>`;
+}
+
+/**
+ * A hidden message that writes the rules file, for imported chats whose project files are rebuilt from
+ * their messages.
+ */
+export function createRulesMessage(rules: string): Message {
+  return {
+    id: `rules-${Date.now()}`,
+    role: 'assistant',
+    content: filesToArtifacts({ [PROJECT_RULES_PATH]: { content: rules } }, `rules-${Date.now()}`),
+    annotations: ['hidden'],
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { renderPromptTemplate } from './prompt-library';
+
+describe('renderPromptTemplate', () => {
+  it('should fill in the known variables and keep the others', () => {
+    const prompt = renderPromptTemplate(
+      'Work in {{cwd}} with {{ allowedHtmlElements }}. Supabase: {{supabase.isConnected}} {{supabase.url}} {{unknown}}',
+      {
+        cwd: '/home/project',
+        allowedHtmlElements: ['a', 'b'],
+        modificationTagName: 'bolt_file_modifications',
+        supabase: {
+          isConnected: true,
+          hasSelectedProject: true,
+          credentials: { supabaseUrl: 'https://x.supabase.co' },
+        },
+      },
+    );
+
+    expect(prompt).toBe('Work in /home/project with <a>, <b>. Supabase: true https://x.supabase.co {{unknown}}');
+  });
+});
@@ -15,6 +15,49 @@ export interface PromptOptions {
   };
 }
 
+/**
+ * The variables of user prompts, written as `{{name}}` in a template and filled in on every request.
+ */
+export const PROMPT_VARIABLES: Record<string, { description: string; get: (options: PromptOptions) => string }> = {
+  cwd: {
+    description: 'The working directory of the project',
+    get: (options) => options.cwd,
+  },
+  allowedHtmlElements: {
+    description: 'The HTML elements allowed in responses',
+    get: (options) => options.allowedHtmlElements.map((tagName) => `<${tagName}>`).join(', '),
+  },
+  modificationTagName: {
+    description: 'The tag of the user modifications to files',
+    get: (options) => options.modificationTagName,
+  },
+  'supabase.isConnected': {
+    description: 'Whether Supabase is connected, true or false',
+    get: (options) => String(!!options.supabase?.isConnected),
+  },
+  'supabase.hasSelectedProject': {
+    description: 'Whether a Supabase project is selected, true or false',
+    get: (options) => String(!!options.supabase?.hasSelectedProject),
+  },
+  'supabase.url': {
+    description: 'The URL of the selected Supabase project',
+    get: (options) => options.supabase?.credentials?.supabaseUrl ?? '',
+  },
+  'supabase.anonKey': {
+    description: 'The anon key of the selected Supabase project',
+    get: (options) => options.supabase?.credentials?.anonKey ?? '',
+  },
+};
+
+/**
+ * Fills in the variables of a user prompt, unknown variables are kept as they are.
+ */
+export function renderPromptTemplate(template: string, options: PromptOptions) {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) =>
+    PROMPT_VARIABLES[name] ? PROMPT_VARIABLES[name].get(options) : match,
+  );
+}
+
 export class PromptLibrary {
   static library: Record<
     string,
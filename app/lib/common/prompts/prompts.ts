@@ -342,6 +342,29 @@ You are Bolt, an expert AI assistant and exceptional senior software developer w
 
       - file: For writing new files or updating existing files. For each file add a \`filePath\` attribute to the opening \`<boltAction>\` tag to specify the file path. The content of the file artifact is the file contents. All file paths MUST BE relative to the current working directory.
 
+      - edit: For small, targeted changes to an EXISTING file. Add a \`filePath\` attribute just like for file actions. The content is one or more search/replace blocks:
+
+        <<<<<<< SEARCH
+        exact lines currently in the file
+        =======
+        lines that replace them
+        >>>>>>> REPLACE
+
+        - The SEARCH part MUST match the latest content of the file exactly, including indentation, and contain enough lines to be unambiguous.
+        - Blocks are applied in order. Use a file action instead when rewriting most of a file or creating a new one.
+
+      - delete: For deleting a file or folder. Add a \`filePath\` attribute, the action has no content: \`<boltAction type="delete" filePath="src/old.js" />\`
+
+      - rename / move: For renaming or moving a file or folder. Add a \`filePath\` attribute with the current path and a \`newFilePath\` attribute with the new path, the action has no content: \`<boltAction type="rename" filePath="src/App.jsx" newFilePath="src/App.tsx" />\`
+
+        - The content is kept, use an edit or file action afterwards to change it.
+        - ULTRA IMPORTANT: NEVER use shell commands like \`rm\` or \`mv\` to delete, rename or move project files.
+
+      - read: For looking at the project before changing it, when the content you need is not in the context. Add an \`operation\` attribute (\`file\` to read a file, \`list\` to list a directory or \`grep\` to search the files for the regular expression in a \`pattern\` attribute) and a \`path\` attribute, the action has no content: \`<boltAction type="read" operation="grep" pattern="useAuth" path="src" />\`
+
+        - IMPORTANT: End your response right after the read actions. The results are sent to you and you continue the response from there, without repeating anything.
+        - NEVER change a file whose latest content you have not seen, read it first.
+
       - start: For starting a development server.
         - Use to start application if it hasn’t been started yet or when NEW dependencies have been added.
         - Only use this action when you need to run a dev server or start the application
@@ -354,7 +377,7 @@ You are Bolt, an expert AI assistant and exceptional senior software developer w
 
       IMPORTANT: Add all required dependencies to the \`package.json\` already and try to avoid \`npm i <pkg>\` if possible!
 
-    11. CRITICAL: Always provide the FULL, updated content of the artifact. This means:
+    11. CRITICAL: Always provide the FULL, updated content of the artifact, except for edit actions. This means:
 
       - Include ALL code, even if parts are unchanged
       - NEVER use placeholders like "// rest of the code remains the same..." or "<- leave original code here ->"
@@ -482,3 +505,18 @@ export const CONTINUE_PROMPT = stripIndents`
   Continue your prior response. IMPORTANT: Immediately begin from where you left off without any interruptions.
   Do not repeat any content, including artifact and action tags.
 `;
+
+export const READ_RESULTS_PROMPT = stripIndents`
+  Above are the results of your read actions. Continue your prior response from where you left off, inside the same artifact.
+  Do not repeat any content, including artifact and action tags.
+`;
+
+export const TOOL_CALLING_PROMPT = stripIndents`
+  IMPORTANT: Native tool calling is enabled for this conversation. Do NOT write \`<boltArtifact>\` or \`<boltAction>\` tags, use the tools instead:
+    - \`write_file\` for every file you create or change, always with its complete content
+    - \`run_command\` for shell commands, with \`startsServer\` set to true only for the command that starts the dev server
+    - \`read_file\` to look at a file before changing it when its content is not in the context
+    - \`list_directory\` and \`grep\` to find the files that are relevant for the request
+
+  All other rules for artifacts still apply to the tool calls, e.g. their order and installing dependencies before starting the dev server.
+`;
@@ -0,0 +1,17 @@
+import type { Message } from 'ai';
+
+// the thinking budgets the user picks from, in tokens
+export const THINKING_BUDGETS = [
+  { label: 'Low', budget: 2048 },
+  { label: 'Medium', budget: 8192 },
+  { label: 'High', budget: 24576 },
+];
+
+/**
+ * Returns the reasoning of a response, the reasoning of all its segments and steps joined.
+ */
+export function getReasoning(message: Pick<Message, 'parts'>) {
+  const reasoning = (message.parts ?? []).flatMap((part) => (part.type === 'reasoning' ? [part.reasoning] : []));
+
+  return reasoning.join('\n\n').trim();
+}
@@ -0,0 +1,94 @@
+import type { BoltAction } from '~/types/actions';
+
+/**
+ * Names of the tools used instead of `<boltArtifact>` tags for models with native tool calling.
+ */
+export const TOOL_NAMES = {
+  WRITE_FILE: 'write_file',
+  RUN_COMMAND: 'run_command',
+  READ_FILE: 'read_file',
+  LIST_DIRECTORY: 'list_directory',
+  GREP: 'grep',
+} as const;
+
+/**
+ * The tool calls of a message are shown as a single artifact. Its id is derived from the message, as the
+ * first artifact of a chat names its url.
+ */
+export function getToolArtifact(messageId: string) {
+  return { id: `project-${messageId}`, title: 'Project Changes' };
+}
+
+export interface WriteFileToolArgs {
+  filePath: string;
+  content: string;
+}
+
+export interface RunCommandToolArgs {
+  command: string;
+  startsServer?: boolean;
+}
+
+export interface ReadFileToolArgs {
+  filePath: string;
+}
+
+export interface ListDirectoryToolArgs {
+  path: string;
+}
+
+export interface GrepToolArgs {
+  pattern: string;
+  path?: string;
+}
+
+/**
+ * Maps the (possibly partial) arguments of a tool call to the action it performs. Returns `undefined`
+ * while the arguments needed for the action are still streaming.
+ */
+export function getToolAction(toolName: string, args: Record<string, unknown> | undefined): BoltAction | undefined {
+  switch (toolName) {
+    case TOOL_NAMES.WRITE_FILE: {
+      const { filePath, content } = (args ?? {}) as Partial<WriteFileToolArgs>;
+
+      if (typeof filePath !== 'string') {
+        return undefined;
+      }
+
+      return { type: 'file', filePath, content: content ?? '' };
+    }
+    case TOOL_NAMES.RUN_COMMAND: {
+      const { command, startsServer } = (args ?? {}) as Partial<RunCommandToolArgs>;
+
+      if (typeof command !== 'string') {
+        return undefined;
+      }
+
+      return { type: startsServer ? 'start' : 'shell', content: command };
+    }
+    case TOOL_NAMES.READ_FILE: {
+      const { filePath } = (args ?? {}) as Partial<ReadFileToolArgs>;
+
+      return typeof filePath === 'string'
+        ? { type: 'read', operation: 'file', path: filePath, content: '' }
+        : undefined;
+    }
+    case TOOL_NAMES.LIST_DIRECTORY: {
+      const { path } = (args ?? {}) as Partial<ListDirectoryToolArgs>;
+
+      return typeof path === 'string' ? { type: 'read', operation: 'list', path, content: '' } : undefined;
+    }
+    case TOOL_NAMES.GREP: {
+      const { pattern, path } = (args ?? {}) as Partial<GrepToolArgs>;
+
+      if (typeof pattern !== 'string') {
+        return undefined;
+      }
+
+      return { type: 'read', operation: 'grep', path: path ?? '', pattern, content: '' };
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
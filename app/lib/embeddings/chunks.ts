@@ -0,0 +1,29 @@
+// lines per chunk, neighbouring chunks share a few so code at the boundary is not cut off from its context
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+
+// long lines, like minified code, would make a chunk larger than embedding models accept
+const MAX_CHUNK_LENGTH = 6000;
+
+/**
+ * Splits a file into chunks of lines to embed. Each chunk starts with the path of the file, so that files are
+ * also found by their names.
+ */
+export function chunkFile(path: string, content: string) {
+  const lines = content.split('\n');
+  const chunks: string[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const text = lines.slice(start, start + CHUNK_LINES).join('\n');
+
+    if (text.trim()) {
+      chunks.push(`${path}\n${text}`.slice(0, MAX_CHUNK_LENGTH));
+    }
+
+    if (start + CHUNK_LINES >= lines.length) {
+      break;
+    }
+  }
+
+  return chunks.length > 0 ? chunks : [path];
+}
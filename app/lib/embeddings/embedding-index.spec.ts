@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EmbeddingIndex } from './embedding-index';
+
+const VOCABULARY = ['button', 'login', 'database', 'style'];
+
+// counts the words of the vocabulary, enough for similar texts to get similar vectors
+const embed = vi.fn(async (values: string[]) =>
+  values.map((value) => VOCABULARY.map((word) => value.split(word).length - 1 + 0.01)),
+);
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+describe('EmbeddingIndex', () => {
+  it('should rank files by their similarity to the query', async () => {
+    const index = new EmbeddingIndex(embed);
+
+    index.updateAll({
+      '/home/project/src/Login.tsx': file('login form with a login button'),
+      '/home/project/src/db.ts': file('database client and database schema'),
+      '/home/project/src/styles.css': file('style of the button'),
+      '/home/project/node_modules/lib/index.js': file('login database'),
+      '/home/project/public/logo.png': { type: 'file', content: 'AAAA', isBinary: true },
+    });
+
+    const ranked = await index.search('fix the login', 2);
+
+    expect(ranked.map((entry) => entry.path)).toEqual(['/home/project/src/Login.tsx', '/home/project/src/styles.css']);
+    expect(index.size).toBe(3);
+  });
+
+  it('should only embed files again when they change', async () => {
+    const index = new EmbeddingIndex(embed);
+
+    index.updateAll({ '/home/project/a.ts': file('button'), '/home/project/b.ts': file('style') });
+    await index.flush();
+    embed.mockClear();
+
+    index.update('/home/project/a.ts', file('button'));
+    index.update('/home/project/b.ts', file('database'));
+    index.update('/home/project/c.ts', undefined);
+    await index.flush();
+
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0]).toEqual(['/home/project/b.ts\ndatabase']);
+
+    index.updateAll({ '/home/project/b.ts': file('database') });
+    await index.flush();
+
+    expect(index.size).toBe(1);
+  });
+});
@@ -0,0 +1,192 @@
+import { cosineSimilarity } from 'ai';
+import ignore from 'ignore';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { chunkFile } from './chunks';
+
+const logger = createScopedLogger('EmbeddingIndex');
+
+const IGNORE_PATTERNS = [
+  'node_modules/**',
+  '.git/**',
+  'dist/**',
+  'build/**',
+  '.next/**',
+  'coverage/**',
+  '.cache/**',
+  '.vscode/**',
+  '.idea/**',
+  '**/*.log',
+  '**/.DS_Store',
+  '**/*lock.json',
+  '**/*lock.yaml',
+  '**/*lock.yml',
+];
+
+const ig = ignore().add(IGNORE_PATTERNS);
+
+// larger files are mostly generated or data, and would take most of the embedding budget
+const MAX_FILE_LENGTH = 100_000;
+
+// chunks embedded per request
+const BATCH_SIZE = 64;
+
+export type Embed = (values: string[]) => Promise<number[][]>;
+
+export interface RankedFile {
+  path: string;
+  score: number;
+}
+
+interface IndexedFile {
+  content: string;
+  embeddings: number[][];
+}
+
+/**
+ * Embeddings of the chunks of the project files, to rank the files by their similarity to a request. Changes
+ * are queued as they happen and embedded in batches on `flush`, so only changed files are embedded again.
+ */
+export class EmbeddingIndex {
+  #embed: Embed;
+  #files = new Map<string, IndexedFile>();
+
+  // the content to index by path, `undefined` removes the file from the index
+  #queue = new Map<string, string | undefined>();
+  #indexing?: Promise<void>;
+
+  // bumped on `clear`, so that batches of an earlier model are dropped
+  #generation = 0;
+
+  constructor(embed: Embed) {
+    this.#embed = embed;
+  }
+
+  get size() {
+    return this.#files.size;
+  }
+
+  update(path: string, dirent: FileMap[string]) {
+    const relativePath = path.startsWith(`${WORK_DIR}/`) ? path.slice(WORK_DIR.length + 1) : path;
+    const indexable =
+      dirent?.type === 'file' &&
+      !dirent.isBinary &&
+      dirent.content.length <= MAX_FILE_LENGTH &&
+      !ig.ignores(relativePath);
+
+    if (!indexable) {
+      if (this.#files.has(path) || this.#queue.has(path)) {
+        this.#queue.set(path, undefined);
+      }
+
+      return;
+    }
+
+    if (this.#files.get(path)?.content === dirent.content && !this.#queue.has(path)) {
+      return;
+    }
+
+    this.#queue.set(path, dirent.content);
+  }
+
+  /**
+   * Queues all files, the indexed files that are gone are removed.
+   */
+  updateAll(files: FileMap) {
+    for (const path of this.#files.keys()) {
+      if (!files[path]) {
+        this.#queue.set(path, undefined);
+      }
+    }
+
+    for (const [path, dirent] of Object.entries(files)) {
+      this.update(path, dirent);
+    }
+  }
+
+  clear() {
+    this.#generation++;
+    this.#files.clear();
+    this.#queue.clear();
+  }
+
+  flush() {
+    this.#indexing ??= this.#processQueue().finally(() => {
+      this.#indexing = undefined;
+    });
+
+    return this.#indexing;
+  }
+
+  /**
+   * Ranks the indexed files by the best match of their chunks with the query.
+   */
+  async search(query: string, limit: number): Promise<RankedFile[]> {
+    await this.flush();
+
+    if (this.#files.size === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await this.#embed([query]);
+    const ranked: RankedFile[] = [];
+
+    for (const [path, file] of this.#files) {
+      const score = Math.max(...file.embeddings.map((embedding) => cosineSimilarity(queryEmbedding, embedding)));
+      ranked.push({ path, score });
+    }
+
+    return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async #processQueue() {
+    while (this.#queue.size > 0) {
+      const generation = this.#generation;
+      const batch: Array<{ path: string; content: string; chunks: string[] }> = [];
+      let chunkCount = 0;
+
+      for (const [path, content] of this.#queue) {
+        if (chunkCount >= BATCH_SIZE) {
+          break;
+        }
+
+        this.#queue.delete(path);
+
+        if (content === undefined) {
+          this.#files.delete(path);
+          continue;
+        }
+
+        const chunks = chunkFile(path, content);
+        batch.push({ path, content, chunks });
+        chunkCount += chunks.length;
+      }
+
+      if (batch.length === 0) {
+        continue;
+      }
+
+      let embeddings: number[][];
+
+      try {
+        embeddings = await this.#embed(batch.flatMap((file) => file.chunks));
+      } catch (error) {
+        // the files stay unindexed until they change again, rather than failing every later flush
+        logger.error(`Failed to embed ${batch.length} files`, error);
+        throw error;
+      }
+
+      if (generation !== this.#generation) {
+        continue;
+      }
+
+      let offset = 0;
+
+      for (const { path, content, chunks } of batch) {
+        this.#files.set(path, { content, embeddings: embeddings.slice(offset, offset + chunks.length) });
+        offset += chunks.length;
+      }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { useStore } from '@nanostores/react';
+import { useEffect } from 'react';
+import {
+  AUTO_FIX_MAX_ATTEMPTS,
+  autoFixStore,
+  getFixMessage,
+  resetAutoFix,
+  resolveAutoFix,
+  startAutoFixAttempt,
+} from '~/lib/stores/autofix';
+import { autoFixEnabledStore } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { ActionAlert } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('useAutoFix');
+
+/**
+ * Time without a new alert after which a fix is considered successful.
+ */
+const AUTO_FIX_SETTLE_MS = 5000;
+
+interface UseAutoFixOptions {
+  alert?: ActionAlert;
+  isLoading: boolean;
+  sendFixMessage: (message: string) => void;
+}
+
+/**
+ * Sends terminal and preview errors back to the model until they disappear or the retry budget is used up.
+ */
+export function useAutoFix({ alert, isLoading, sendFixMessage }: UseAutoFixOptions) {
+  const autoFixEnabled = useStore(autoFixEnabledStore);
+  const { status } = useStore(autoFixStore);
+
+  useEffect(() => {
+    resetAutoFix();
+  }, []);
+
+  useEffect(() => {
+    if (!autoFixEnabled || !alert || isLoading || status === 'stopped' || status === 'exhausted') {
+      return;
+    }
+
+    const step = startAutoFixAttempt(alert);
+
+    if (!step) {
+      // the alert stays visible so the user can take over
+      logger.debug('Auto fix budget exhausted');
+      return;
+    }
+
+    workbenchStore.clearAlert();
+    sendFixMessage(`${getFixMessage(alert)}\n(Automatic fix attempt ${step.attempt}/${AUTO_FIX_MAX_ATTEMPTS})`);
+  }, [alert, isLoading, autoFixEnabled, status, sendFixMessage]);
+
+  useEffect(() => {
+    if (status !== 'fixing' || isLoading || alert) {
+      return undefined;
+    }
+
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const waitForSettle = () => {
+      timeout = setTimeout(() => {
+        // the error can only be considered gone once the actions of the fix ran
+        if (hasRunningActions()) {
+          waitForSettle();
+          return;
+        }
+
+        resolveAutoFix();
+      }, AUTO_FIX_SETTLE_MS);
+    };
+
+    waitForSettle();
+
+    return () => clearTimeout(timeout);
+  }, [status, isLoading, alert]);
+}
+
+function hasRunningActions() {
+  const artifactId = workbenchStore.artifactIdList[workbenchStore.artifactIdList.length - 1];
+  const artifact = artifactId ? workbenchStore.artifacts.get()[artifactId] : undefined;
+
+  if (!artifact) {
+    return false;
+  }
+
+  // dev servers keep running, so start actions are never finished
+  return Object.values(artifact.runner.actions.get()).some(
+    (action) => action.type !== 'start' && ['pending', 'running', 'awaiting'].includes(action.status),
+  );
+}
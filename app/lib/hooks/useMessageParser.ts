@@ -1,47 +1,52 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
-import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { StreamingMessageParser, type ParserCallbacks } from '~/lib/runtime/message-parser';
+import { ToolInvocationParser } from '~/lib/runtime/tool-invocation-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('useMessageParser');
 
-const messageParser = new StreamingMessageParser({
-  callbacks: {
-    onArtifactOpen: (data) => {
-      logger.trace('onArtifactOpen', data);
-
-      workbenchStore.showWorkbench.set(true);
-      workbenchStore.addArtifact(data);
-    },
-    onArtifactClose: (data) => {
-      logger.trace('onArtifactClose');
-
-      workbenchStore.updateArtifact(data, { closed: true });
-    },
-    onActionOpen: (data) => {
-      logger.trace('onActionOpen', data.action);
-
-      // we only add shell actions when when the close tag got parsed because only then we have the content
-      if (data.action.type === 'file') {
-        workbenchStore.addAction(data);
-      }
-    },
-    onActionClose: (data) => {
-      logger.trace('onActionClose', data.action);
+const callbacks: ParserCallbacks = {
+  onArtifactOpen: (data) => {
+    logger.trace('onArtifactOpen', data);
 
-      if (data.action.type !== 'file') {
-        workbenchStore.addAction(data);
-      }
+    workbenchStore.showWorkbench.set(true);
+    workbenchStore.addArtifact(data);
+  },
+  onArtifactClose: (data) => {
+    logger.trace('onArtifactClose');
+
+    workbenchStore.updateArtifact(data, { closed: true });
+  },
+  onActionOpen: (data) => {
+    logger.trace('onActionOpen', data.action);
+
+    // we only add shell actions when when the close tag got parsed because only then we have the content
+    if (data.action.type === 'file') {
+      workbenchStore.addAction(data);
+    }
+  },
+  onActionClose: (data) => {
+    logger.trace('onActionClose', data.action);
 
-      workbenchStore.runAction(data);
-    },
-    onActionStream: (data) => {
-      logger.trace('onActionStream', data.action);
-      workbenchStore.runAction(data, true);
-    },
+    if (data.action.type !== 'file') {
+      workbenchStore.addAction(data);
+    }
+
+    workbenchStore.runAction(data);
   },
-});
+  onActionStream: (data) => {
+    logger.trace('onActionStream', data.action);
+    workbenchStore.runAction(data, true);
+  },
+};
+
+const messageParser = new StreamingMessageParser({ callbacks });
+
+// actions of models with native tool calling arrive as tool calls instead of artifact tags
+const toolInvocationParser = new ToolInvocationParser({ callbacks });
+
 const extractTextContent = (message: Message) =>
   Array.isArray(message.content)
     ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
@@ -56,11 +61,18 @@ export function useMessageParser() {
     if (import.meta.env.DEV && !isLoading) {
       reset = true;
       messageParser.reset();
+      toolInvocationParser.reset();
     }
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant' || message.role === 'user') {
-        const newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+        let newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+
+        if (message.role === 'assistant') {
+          const isComplete = !isLoading || index < messages.length - 1;
+          newParsedContent += toolInvocationParser.parse(message.id, message.toolInvocations, isComplete);
+        }
+
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
           [index]: !reset ? (prevParsed[index] || '') + newParsedContent : newParsedContent,
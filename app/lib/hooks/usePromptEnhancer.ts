@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { parseModelKey, utilityModelStore } from '~/lib/stores/settings';
 import type { ProviderInfo } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -33,6 +34,10 @@ export function usePromptEnhancer() {
       requestBody.apiKeys = apiKeys;
     }
 
+    if (utilityModelStore.get()) {
+      requestBody.utilityModel = parseModelKey(utilityModelStore.get());
+    }
+
     const response = await fetch('/api/enhancer', {
       method: 'POST',
       body: JSON.stringify(requestBody),
@@ -11,15 +11,39 @@ import {
   updateTabConfiguration as updateTabConfig,
   resetTabConfiguration as resetTabConfig,
   updateProviderSettings as updateProviderSettingsStore,
+  addCustomProvider as addCustomProviderStore,
+  removeCustomProvider as removeCustomProviderStore,
   updateLatestBranch,
   updateAutoSelectTemplate,
   updateContextOptimization,
   updateEventLogs,
   updatePromptId,
+  actionApprovalStore,
+  commandAllowlistStore,
+  updateActionApproval,
+  updateCommandAllowlist,
+  autoFixEnabledStore,
+  updateAutoFix,
+  toolCallingModelsStore,
+  updateToolCalling,
+  getModelKey,
+  fallbackModelsStore,
+  updateFallbackModels,
+  contextSelectionStore,
+  updateContextSelection,
+  embeddingModelStore,
+  updateEmbeddingModel,
+  utilityModelStore,
+  updateUtilityModel,
+  planModeStore,
+  updatePlanMode,
+  thinkingBudgetsStore,
+  updateThinkingBudget,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
 import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
+import type { ContextSelection } from '~/types/context';
 import type { TabWindowConfig, TabVisibilityConfig } from '~/components/@settings/core/types';
 import { logStore } from '~/lib/stores/logs';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
@@ -46,6 +70,8 @@ export interface UseSettingsReturn {
   providers: Record<string, IProviderConfig>;
   activeProviders: ProviderInfo[];
   updateProviderSettings: (provider: string, config: IProviderSetting) => void;
+  addCustomProvider: (name: string, config: IProviderSetting) => void;
+  removeCustomProvider: (name: string) => void;
 
   // Debug and development settings
   debug: boolean;
@@ -59,6 +85,26 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  actionApprovalEnabled: boolean;
+  enableActionApproval: (enabled: boolean) => void;
+  commandAllowlist: string[];
+  setCommandAllowlist: (commands: string[]) => void;
+  autoFixEnabled: boolean;
+  enableAutoFix: (enabled: boolean) => void;
+  isToolCallingEnabled: (provider: string, model: string) => boolean;
+  enableToolCalling: (provider: string, model: string, enabled: boolean) => void;
+  fallbackModels: string[];
+  setFallbackModels: (models: string[]) => void;
+  contextSelection: ContextSelection;
+  setContextSelection: (selection: ContextSelection) => void;
+  embeddingModel: string;
+  setEmbeddingModel: (key: string) => void;
+  utilityModel: string;
+  setUtilityModel: (key: string) => void;
+  planModeEnabled: boolean;
+  enablePlanMode: (enabled: boolean) => void;
+  getThinkingBudget: (provider: string, model: string) => number | undefined;
+  setThinkingBudget: (provider: string, model: string, budget?: number) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -80,6 +126,16 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const actionApprovalEnabled = useStore(actionApprovalStore);
+  const commandAllowlist = useStore(commandAllowlistStore);
+  const autoFixEnabled = useStore(autoFixEnabledStore);
+  const toolCallingModels = useStore(toolCallingModelsStore);
+  const fallbackModels = useStore(fallbackModelsStore);
+  const contextSelection = useStore(contextSelectionStore);
+  const embeddingModel = useStore(embeddingModelStore);
+  const utilityModel = useStore(utilityModelStore);
+  const planModeEnabled = useStore(planModeStore);
+  const thinkingBudgets = useStore(thinkingBudgetsStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -114,6 +170,16 @@ export function useSettings(): UseSettingsReturn {
     updateProviderSettingsStore(provider, config);
   }, []);
 
+  const addCustomProvider = useCallback((name: string, config: IProviderSetting) => {
+    addCustomProviderStore(name, config);
+    logStore.logProvider(`Custom provider ${name} added`, { provider: name, baseUrl: config.baseUrl });
+  }, []);
+
+  const removeCustomProvider = useCallback((name: string) => {
+    removeCustomProviderStore(name);
+    logStore.logProvider(`Custom provider ${name} removed`, { provider: name });
+  }, []);
+
   const enableDebugMode = useCallback((enabled: boolean) => {
     isDebugMode.set(enabled);
     logStore.logSystem(`Debug mode ${enabled ? 'enabled' : 'disabled'}`);
@@ -145,6 +211,70 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const enableActionApproval = useCallback((enabled: boolean) => {
+    updateActionApproval(enabled);
+    logStore.logSystem(`Action approval ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setCommandAllowlist = useCallback((commands: string[]) => {
+    updateCommandAllowlist(commands);
+    logStore.logSystem('Command allowlist updated');
+  }, []);
+
+  const enableAutoFix = useCallback((enabled: boolean) => {
+    updateAutoFix(enabled);
+    logStore.logSystem(`Auto fix ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const isToolCallingEnabled = useCallback(
+    (provider: string, model: string) => toolCallingModels.includes(getModelKey(provider, model)),
+    [toolCallingModels],
+  );
+
+  const enableToolCalling = useCallback((provider: string, model: string, enabled: boolean) => {
+    updateToolCalling(provider, model, enabled);
+    logStore.logSystem(`Native tool calling ${enabled ? 'enabled' : 'disabled'} for ${provider}/${model}`);
+  }, []);
+
+  const setFallbackModels = useCallback((models: string[]) => {
+    updateFallbackModels(models);
+    logStore.logSystem('Fallback models updated', { models });
+  }, []);
+
+  const setContextSelection = useCallback((selection: ContextSelection) => {
+    updateContextSelection(selection);
+    logStore.logSystem(`Context selection set to ${selection}`);
+  }, []);
+
+  const setEmbeddingModel = useCallback((key: string) => {
+    updateEmbeddingModel(key);
+    logStore.logSystem(key ? `Embedding model set to ${key}` : 'Embedding model removed');
+  }, []);
+
+  const setUtilityModel = useCallback((key: string) => {
+    updateUtilityModel(key);
+    logStore.logSystem(key ? `Utility model set to ${key}` : 'Utility model removed');
+  }, []);
+
+  const enablePlanMode = useCallback((enabled: boolean) => {
+    updatePlanMode(enabled);
+    logStore.logSystem(`Plan mode ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const getThinkingBudget = useCallback(
+    (provider: string, model: string) => thinkingBudgets[getModelKey(provider, model)],
+    [thinkingBudgets],
+  );
+
+  const setThinkingBudget = useCallback((provider: string, model: string, budget?: number) => {
+    updateThinkingBudget(provider, model, budget);
+    logStore.logSystem(
+      budget
+        ? `Thinking budget set to ${budget} tokens for ${provider}/${model}`
+        : `Thinking budget removed for ${provider}/${model}`,
+    );
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -187,6 +317,8 @@ export function useSettings(): UseSettingsReturn {
     providers,
     activeProviders,
     updateProviderSettings,
+    addCustomProvider,
+    removeCustomProvider,
     debug,
     enableDebugMode,
     eventLogs,
@@ -199,6 +331,26 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    actionApprovalEnabled,
+    enableActionApproval,
+    commandAllowlist,
+    setCommandAllowlist,
+    autoFixEnabled,
+    enableAutoFix,
+    isToolCallingEnabled,
+    enableToolCalling,
+    fallbackModels,
+    setFallbackModels,
+    contextSelection,
+    setContextSelection,
+    embeddingModel,
+    setEmbeddingModel,
+    utilityModel,
+    setUtilityModel,
+    planModeEnabled,
+    enablePlanMode,
+    getThinkingBudget,
+    setThinkingBudget,
     setTheme,
     setLanguage,
     setNotifications,
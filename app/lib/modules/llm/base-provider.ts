@@ -1,4 +1,4 @@
-import type { LanguageModelV1 } from 'ai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
 import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
 import type { IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
@@ -17,6 +17,9 @@ export abstract class BaseProvider implements ProviderInfo {
   labelForGetApiKey?: string;
   icon?: string;
 
+  // suggested for the retrieval of context files, set by providers that can embed text
+  embeddingModels?: string[];
+
   getProviderBaseUrlAndKey(options: {
     apiKeys?: Record<string, string>;
     providerSettings?: IProviderSetting;
@@ -115,6 +118,13 @@ export abstract class BaseProvider implements ProviderInfo {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
   }): LanguageModelV1;
+
+  getEmbeddingModelInstance?(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string>;
 }
 
 type OptionalApiKey = string | undefined;
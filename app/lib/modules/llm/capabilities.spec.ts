@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { hasCapability, inferCapabilities, withCapabilities } from './capabilities';
+
+describe('inferCapabilities', () => {
+  it('should infer capabilities from the model name', () => {
+    expect(inferCapabilities({ name: 'gpt-4o-mini' })).toEqual({
+      vision: true,
+      toolCalling: true,
+      reasoning: false,
+      promptCaching: true,
+    });
+    expect(inferCapabilities({ name: 'deepseek-r1-distill-llama-70b' })).toEqual({
+      vision: false,
+      toolCalling: false,
+      reasoning: true,
+      promptCaching: true,
+    });
+  });
+});
+
+describe('withCapabilities', () => {
+  it('should prefer declared capabilities over inferred ones', () => {
+    const model = withCapabilities({
+      name: 'llava-13b',
+      label: 'LLaVA',
+      provider: 'Ollama',
+      maxTokenAllowed: 8000,
+      capabilities: { vision: undefined, toolCalling: true },
+    });
+
+    expect(model.capabilities).toEqual({ vision: true, toolCalling: true, reasoning: false, promptCaching: false });
+  });
+});
+
+describe('hasCapability', () => {
+  it('should assume unknown models have every capability', () => {
+    expect(hasCapability(undefined, 'vision')).toBe(true);
+  });
+});
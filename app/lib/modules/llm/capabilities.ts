@@ -0,0 +1,46 @@
+import type { ModelCapabilities, ModelCapability, ModelInfo } from './types';
+
+export const MODEL_CAPABILITIES: { key: ModelCapability; label: string; icon: string }[] = [
+  { key: 'vision', label: 'Vision', icon: 'i-ph:image' },
+  { key: 'toolCalling', label: 'Tools', icon: 'i-ph:wrench' },
+  { key: 'reasoning', label: 'Reasoning', icon: 'i-ph:brain' },
+  { key: 'promptCaching', label: 'Caching', icon: 'i-ph:lightning' },
+];
+
+const VISION_REGEX = /gpt-4o|gpt-4-turbo|gpt-4\.1|gpt-4\.5|claude-3|gemini|llava|pixtral|vision|[-.]vl\b|-vl-/i;
+const REASONING_REGEX = /\bo1\b|\bo1-|\bo3\b|\bo3-|\bo4-|reasoner|\br1\b|-r1\b|thinking|qwq/i;
+const NO_TOOLS_REGEX = /\bo1-mini\b|\bo1-preview\b|reasoner|\br1\b|-r1\b|thinking|gemma|embed|whisper|dall-e|tts/i;
+const PROMPT_CACHING_REGEX = /claude-3|deepseek|gpt-4o|gpt-4\.1|\bo1\b|\bo3\b/i;
+
+/**
+ * Guesses the capabilities of a model from its name, for dynamic model lists that don't report them.
+ */
+export function inferCapabilities(model: Pick<ModelInfo, 'name'>): ModelCapabilities {
+  return {
+    vision: VISION_REGEX.test(model.name),
+    toolCalling: !NO_TOOLS_REGEX.test(model.name),
+    reasoning: REASONING_REGEX.test(model.name),
+    promptCaching: PROMPT_CACHING_REGEX.test(model.name),
+  };
+}
+
+/**
+ * Fills in the capabilities a model doesn't declare itself with inferred ones.
+ */
+export function withCapabilities(model: ModelInfo): ModelInfo {
+  const declared = Object.entries(model.capabilities ?? {}).filter(([, value]) => value !== undefined);
+
+  return { ...model, capabilities: { ...inferCapabilities(model), ...Object.fromEntries(declared) } };
+}
+
+/**
+ * Whether a model has a capability. Unknown models are assumed to have it, so features are only blocked when
+ * the model is known to lack them.
+ */
+export function hasCapability(model: ModelInfo | undefined, capability: ModelCapability) {
+  if (!model) {
+    return true;
+  }
+
+  return (model.capabilities ?? inferCapabilities(model))[capability] ?? false;
+}
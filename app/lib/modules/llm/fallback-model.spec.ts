@@ -0,0 +1,145 @@
+import {
+  APICallError,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { createFallbackModel, type FallbackCandidate } from './fallback-model';
+
+const callOptions: LanguageModelV1CallOptions = {
+  inputFormat: 'messages',
+  mode: { type: 'regular' },
+  prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+};
+
+function createModel(doStream: LanguageModelV1['doStream']): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'test',
+    modelId: 'test',
+    defaultObjectGenerationMode: undefined,
+    doGenerate: vi.fn(),
+    doStream,
+  };
+}
+
+function createStream(parts: LanguageModelV1StreamPart[]) {
+  return {
+    stream: new ReadableStream<LanguageModelV1StreamPart>({
+      start(controller) {
+        parts.forEach((part) => controller.enqueue(part));
+        controller.close();
+      },
+    }),
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  };
+}
+
+async function readText(stream: ReadableStream<LanguageModelV1StreamPart>) {
+  let text = '';
+
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV1StreamPart>) {
+    if (part.type === 'text-delta') {
+      text += part.textDelta;
+    }
+  }
+
+  return text;
+}
+
+describe('createFallbackModel', () => {
+  it('should fall back to the next model when a model fails', async () => {
+    const onModelSelected = vi.fn();
+    const candidates: FallbackCandidate[] = [
+      {
+        provider: 'OpenAI',
+        model: 'gpt-4o',
+        createModel: () =>
+          createModel(() => {
+            throw new APICallError({ message: 'Invalid model', url: '', requestBodyValues: {}, statusCode: 404 });
+          }),
+      },
+      {
+        provider: 'Anthropic',
+        model: 'claude',
+        createModel: () => createModel(async () => createStream([{ type: 'text-delta', textDelta: 'Hi' }])),
+      },
+    ];
+
+    const { stream } = await createFallbackModel(candidates, { onModelSelected }).doStream(callOptions);
+
+    expect(await readText(stream)).toBe('Hi');
+    expect(onModelSelected).toHaveBeenCalledWith(candidates[1], 1);
+  });
+
+  it('should fall back when the response starts with an error', async () => {
+    const primary = vi.fn(async () =>
+      createStream([
+        { type: 'response-metadata', id: 'response_1' },
+        { type: 'error', error: new Error('Overloaded') },
+      ]),
+    );
+
+    const model = createFallbackModel([
+      { provider: 'Anthropic', model: 'claude', createModel: () => createModel(primary) },
+      {
+        provider: 'OpenAI',
+        model: 'gpt-4o',
+        createModel: () => createModel(async () => createStream([{ type: 'text-delta', textDelta: 'Hello' }])),
+      },
+    ]);
+
+    const { stream } = await model.doStream(callOptions);
+
+    expect(await readText(stream)).toBe('Hello');
+    expect(primary).toHaveBeenCalledOnce();
+  });
+
+  it('should fall back when the primary model cannot be created', async () => {
+    const model = createFallbackModel([
+      {
+        provider: 'OpenAI',
+        model: 'gpt-4o',
+        createModel: () => {
+          throw new Error('Missing API key for OpenAI provider');
+        },
+      },
+      {
+        provider: 'Anthropic',
+        model: 'claude',
+        createModel: () => createModel(async () => createStream([{ type: 'text-delta', textDelta: 'Hello' }])),
+      },
+    ]);
+
+    expect(model.provider).toBe('OpenAI');
+    expect(model.modelId).toBe('gpt-4o');
+
+    const { stream } = await model.doStream(callOptions);
+
+    expect(await readText(stream)).toBe('Hello');
+  });
+
+  it('should stop waiting for a retry when the response is stopped', async () => {
+    const abortController = new AbortController();
+    const primary = vi.fn(async () => {
+      setTimeout(() => abortController.abort(new Error('Stopped')), 10);
+
+      throw new APICallError({
+        message: 'Rate limited',
+        url: '',
+        requestBodyValues: {},
+        statusCode: 429,
+        responseHeaders: { 'retry-after': '20' },
+        isRetryable: true,
+      });
+    });
+
+    const model = createFallbackModel([
+      { provider: 'Anthropic', model: 'claude', createModel: () => createModel(primary) },
+    ]);
+
+    await expect(model.doStream({ ...callOptions, abortSignal: abortController.signal })).rejects.toThrow('Stopped');
+    expect(primary).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  APICallError,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('FallbackModel');
+
+// retries of a model on rate limits and server errors before the next model is tried
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY = 1000;
+
+// a model that asks to wait longer than this is skipped instead
+const MAX_RETRY_DELAY = 30_000;
+
+export interface FallbackCandidate {
+  provider: string;
+  model: string;
+  maxTokens?: number;
+
+  // creating the instance can fail as well, e.g. when the api key of the provider is missing
+  createModel: () => LanguageModelV1;
+}
+
+export interface FallbackModelOptions {
+  onModelSelected?: (candidate: FallbackCandidate, index: number) => void;
+}
+
+/**
+ * Creates a model that tries the candidates in order. Rate limits and server errors of a candidate are
+ * retried with backoff first, other errors move on to the next candidate right away. A candidate is only
+ * selected once its response started, so a failed request never leaves partial output behind.
+ */
+export function createFallbackModel(candidates: FallbackCandidate[], options: FallbackModelOptions = {}) {
+  if (candidates.length === 0) {
+    throw new Error('No models to fall back to');
+  }
+
+  const [primary] = candidates;
+
+  async function call<T>(
+    callOptions: LanguageModelV1CallOptions,
+    request: (model: LanguageModelV1, callOptions: LanguageModelV1CallOptions) => PromiseLike<T>,
+  ) {
+    let lastError: unknown;
+
+    for (const [index, candidate] of candidates.entries()) {
+      let model: LanguageModelV1;
+
+      try {
+        model = candidate.createModel();
+      } catch (error) {
+        logger.warn(`Skipping ${candidate.provider}/${candidate.model}: ${getErrorMessage(error)}`);
+        lastError = error;
+
+        continue;
+      }
+
+      const candidateOptions = {
+        ...callOptions,
+        maxTokens:
+          candidate.maxTokens && callOptions.maxTokens
+            ? Math.min(candidate.maxTokens, callOptions.maxTokens)
+            : callOptions.maxTokens,
+      };
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await request(model, candidateOptions);
+
+          if (index > 0) {
+            logger.info(`Falling back to ${candidate.provider}/${candidate.model}`);
+          }
+
+          options.onModelSelected?.(candidate, index);
+
+          return result;
+        } catch (error) {
+          if (callOptions.abortSignal?.aborted) {
+            throw error;
+          }
+
+          lastError = error;
+
+          const delay = getRetryDelay(error, attempt);
+
+          logger.warn(`${candidate.provider}/${candidate.model} failed: ${getErrorMessage(error)}`);
+
+          if (delay === undefined) {
+            break;
+          }
+
+          logger.info(`Retrying ${candidate.provider}/${candidate.model} in ${delay}ms`);
+
+          await wait(delay, callOptions.abortSignal);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  const model: LanguageModelV1 = {
+    specificationVersion: 'v1',
+
+    // the instances are only created when a request is made, as creating one can fail
+    provider: primary.provider,
+    modelId: primary.model,
+    defaultObjectGenerationMode: undefined,
+    doGenerate: (callOptions) => call(callOptions, (model, options) => model.doGenerate(options)),
+    doStream: (callOptions) =>
+      call(callOptions, async (model, options) => {
+        const result = await model.doStream(options);
+        return { ...result, stream: await waitForResponse(result.stream) };
+      }),
+  };
+
+  return model;
+}
+
+/**
+ * Some providers answer with an error part instead of an error status, e.g. when they are overloaded. The
+ * stream is read up to its first output so such errors fail the request instead of the response.
+ */
+async function waitForResponse(stream: ReadableStream<LanguageModelV1StreamPart>) {
+  const reader = stream.getReader();
+  const parts: LanguageModelV1StreamPart[] = [];
+  let done = false;
+
+  while (!done) {
+    const next = await reader.read();
+
+    if (next.done) {
+      done = true;
+      break;
+    }
+
+    if (next.value.type === 'error') {
+      reader.cancel().catch((error) => logger.debug('Failed to cancel the stream', error));
+      throw next.value.error;
+    }
+
+    parts.push(next.value);
+
+    if (next.value.type !== 'response-metadata') {
+      break;
+    }
+  }
+
+  return new ReadableStream<LanguageModelV1StreamPart>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(part));
+
+      if (done) {
+        controller.close();
+      }
+    },
+    async pull(controller) {
+      const next = await reader.read();
+
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Waits before a retry, the wait ends early when the response is stopped.
+ */
+function wait(delay: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function getRetryDelay(error: unknown, attempt: number) {
+  if (!APICallError.isInstance(error) || !error.isRetryable || attempt >= MAX_RETRIES) {
+    return undefined;
+  }
+
+  const retryAfter = Number(error.responseHeaders?.['retry-after']);
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_DELAY * 2 ** attempt;
+
+  return delay <= MAX_RETRY_DELAY ? delay : undefined;
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,7 +1,9 @@
 import type { IProviderSetting } from '~/types/model';
 import { BaseProvider } from './base-provider';
-import type { ModelInfo, ProviderInfo } from './types';
+import type { ModelInfo, ModelPricing, ProviderInfo } from './types';
 import * as providers from './registry';
+import { withCapabilities } from './capabilities';
+import OpenAICompatibleProvider from './providers/openai-compatible';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('LLMManager');
@@ -58,10 +60,25 @@ export class LLMManager {
     }
 
     logger.info('Registering Provider: ', provider.name);
+
+    // models that don't declare their capabilities get inferred ones
+    provider.staticModels = provider.staticModels.map(withCapabilities);
     this._providers.set(provider.name, provider);
     this._modelList = [...this._modelList, ...provider.staticModels];
   }
 
+  /**
+   * Registers the OpenAI-compatible endpoints the user added, which are sent along with the provider settings.
+   * Endpoints keep their configuration in those settings, so users who pick the same name share an instance.
+   */
+  registerCustomProviders(providerSettings: Record<string, IProviderSetting> = {}) {
+    for (const [name, settings] of Object.entries(providerSettings)) {
+      if (settings?.custom && !this._providers.has(name)) {
+        this.registerProvider(new OpenAICompatibleProvider(name));
+      }
+    }
+  }
+
   getProvider(name: string): BaseProvider | undefined {
     return this._providers.get(name);
   }
@@ -84,7 +101,7 @@ export class LLMManager {
     let enabledProviders = Array.from(this._providers.values()).map((p) => p.name);
 
     if (providerSettings && Object.keys(providerSettings).length > 0) {
-      enabledProviders = enabledProviders.filter((p) => providerSettings[p].enabled);
+      enabledProviders = enabledProviders.filter((p) => providerSettings[p]?.enabled);
     }
 
     // Get dynamic models from all providers that support them
@@ -104,6 +121,7 @@ export class LLMManager {
 
           const dynamicModels = await provider
             .getDynamicModels(apiKeys, providerSettings?.[provider.name], serverEnv)
+            .then((models) => models.map(withCapabilities))
             .then((models) => {
               logger.info(`Caching ${models.length} dynamic models for ${provider.name}`);
               provider.storeDynamicModels(options, models);
@@ -170,6 +188,7 @@ export class LLMManager {
 
     const dynamicModels = await provider
       .getDynamicModels?.(apiKeys, providerSettings?.[provider.name], serverEnv)
+      .then((models) => models.map(withCapabilities))
       .then((models) => {
         logger.info(`Got ${models.length} dynamic models for ${provider.name}`);
         provider.storeDynamicModels(options, models);
@@ -187,6 +206,77 @@ export class LLMManager {
 
     return modelList;
   }
+
+  /**
+   * Finds the details of a model of a provider. Unknown models resolve to the first model of the provider.
+   */
+  async resolveModel(
+    providerArg: BaseProvider,
+    modelName: string,
+    options: {
+      apiKeys?: Record<string, string>;
+      providerSettings?: Record<string, IProviderSetting>;
+      serverEnv?: Record<string, string>;
+    },
+  ): Promise<ModelInfo> {
+    const staticModel = this.getStaticModelListFromProvider(providerArg).find((m) => m.name === modelName);
+
+    if (staticModel) {
+      return staticModel;
+    }
+
+    const modelsList = [
+      ...(providerArg.staticModels || []),
+      ...(await this.getModelListFromProvider(providerArg, options)),
+    ];
+
+    if (!modelsList.length) {
+      throw new Error(`No models found for provider ${providerArg.name}`);
+    }
+
+    const modelDetails = modelsList.find((m) => m.name === modelName);
+
+    if (!modelDetails) {
+      logger.warn(
+        `MODEL [${modelName}] not found in provider [${providerArg.name}]. Falling back to first model. ${modelsList[0].name}`,
+      );
+
+      return modelsList[0];
+    }
+
+    return modelDetails;
+  }
+
+  /**
+   * Returns the pricing of a model. Static models are preferred because dynamic model lists rarely include
+   * prices.
+   */
+  async getModelPricing(
+    providerName: string,
+    modelName: string,
+    options: {
+      apiKeys?: Record<string, string>;
+      providerSettings?: Record<string, IProviderSetting>;
+      serverEnv?: Record<string, string>;
+    },
+  ): Promise<ModelPricing | undefined> {
+    const provider = this._providers.get(providerName);
+
+    if (!provider) {
+      return undefined;
+    }
+
+    const staticModel = provider.staticModels.find((m) => m.name === modelName);
+
+    if (staticModel?.pricing) {
+      return staticModel.pricing;
+    }
+
+    const models = await this.getModelListFromProvider(provider, options);
+
+    return models.find((m) => m.name === modelName)?.pricing;
+  }
+
   getStaticModelListFromProvider(providerArg: BaseProvider) {
     const provider = this._providers.get(providerArg.name);
 
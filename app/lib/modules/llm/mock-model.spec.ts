@@ -0,0 +1,78 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { createRecordingModel, createReplayModel, type MockFixture } from './mock-model';
+
+const callOptions: LanguageModelV1CallOptions = {
+  inputFormat: 'messages',
+  mode: { type: 'regular' },
+  prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+};
+
+async function readParts(stream: ReadableStream<LanguageModelV1StreamPart>) {
+  const parts: LanguageModelV1StreamPart[] = [];
+
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV1StreamPart>) {
+    parts.push(part);
+  }
+
+  return parts;
+}
+
+const fixture: MockFixture = {
+  responses: [
+    { text: 'Hello there', usage: { promptTokens: 5, completionTokens: 2 } },
+    {
+      parts: [
+        { type: 'text-delta', textDelta: 'Done' },
+        { type: 'finish', finishReason: 'length', usage: { promptTokens: 9, completionTokens: 1 } },
+      ],
+    },
+  ],
+};
+
+describe('createReplayModel', () => {
+  it('should stream a scripted text with its usage', async () => {
+    const model = createReplayModel('hello', async () => fixture);
+    const { stream } = await model.doStream(callOptions);
+
+    expect(await readParts(stream)).toEqual([
+      { type: 'text-delta', textDelta: 'Hello ' },
+      { type: 'text-delta', textDelta: 'there' },
+      { type: 'finish', finishReason: 'stop', usage: { promptTokens: 5, completionTokens: 2 } },
+    ]);
+  });
+
+  it('should pick the response by the number of assistant messages in the prompt', async () => {
+    const model = createReplayModel('hello', async () => fixture);
+    const result = await model.doGenerate({
+      ...callOptions,
+      prompt: [...callOptions.prompt, { role: 'assistant', content: [{ type: 'text', text: 'Hello there' }] }],
+    });
+
+    expect(result.text).toBe('Done');
+    expect(result.finishReason).toBe('length');
+
+    await expect(
+      model.doGenerate({
+        ...callOptions,
+        prompt: [...callOptions.prompt, { role: 'assistant', content: [] }, { role: 'assistant', content: [] }],
+      }),
+    ).rejects.toThrow('Fixture hello has no response 3');
+  });
+});
+
+describe('createRecordingModel', () => {
+  it('should record the streamed parts once the response finished', async () => {
+    const parts: LanguageModelV1StreamPart[] = [
+      { type: 'text-delta', textDelta: 'Hi' },
+      { type: 'finish', finishReason: 'stop', usage: { promptTokens: 1, completionTokens: 1 } },
+    ];
+    const live = createReplayModel('live', async () => ({ responses: [{ parts }] })) as LanguageModelV1;
+    const onRecorded = vi.fn(async () => undefined);
+
+    const { stream } = await createRecordingModel(live, onRecorded).doStream(callOptions);
+
+    expect(await readParts(stream)).toEqual(parts);
+    expect(onRecorded).toHaveBeenCalledWith(0, { parts });
+  });
+});
@@ -0,0 +1,191 @@
+import type { FinishReason, LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+
+type StreamPart<T extends LanguageModelV1StreamPart['type']> = Extract<LanguageModelV1StreamPart, { type: T }>;
+
+export interface MockResponse {
+  // the stream parts of the response, as recorded
+  parts?: LanguageModelV1StreamPart[];
+
+  // or a scripted text, streamed word by word
+  text?: string;
+  finishReason?: FinishReason;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * A fixture holds the responses of a chat in order. The response to a call is picked by the number of
+ * assistant messages in its prompt, so the steps of a tool call and the turns of a chat get their own.
+ */
+export interface MockFixture {
+  // where the responses were recorded from
+  provider?: string;
+  model?: string;
+
+  // milliseconds between the parts, to stream like a real model in demos
+  delay?: number;
+  responses: MockResponse[];
+}
+
+const rawCall = { rawPrompt: null, rawSettings: {} };
+
+function getResponseIndex(options: LanguageModelV1CallOptions) {
+  return options.prompt.filter((message) => message.role === 'assistant').length;
+}
+
+function getResponseParts(response: MockResponse): LanguageModelV1StreamPart[] {
+  if (response.parts) {
+    return response.parts.map(revivePart);
+  }
+
+  const words = response.text?.match(/\S+\s*|\s+/g) ?? [];
+
+  return [
+    ...words.map((textDelta): LanguageModelV1StreamPart => ({ type: 'text-delta', textDelta })),
+    {
+      type: 'finish',
+      finishReason: response.finishReason ?? 'stop',
+      usage: response.usage ?? { promptTokens: 0, completionTokens: 0 },
+    },
+  ];
+}
+
+// JSON turns dates into strings and errors into plain objects
+function revivePart(part: LanguageModelV1StreamPart): LanguageModelV1StreamPart {
+  if (part.type === 'response-metadata' && typeof part.timestamp === 'string') {
+    return { ...part, timestamp: new Date(part.timestamp) };
+  }
+
+  if (part.type === 'error' && !(part.error instanceof Error)) {
+    return { ...part, error: new Error((part.error as { message?: string })?.message ?? String(part.error)) };
+  }
+
+  return part;
+}
+
+function serializePart(part: LanguageModelV1StreamPart): LanguageModelV1StreamPart {
+  if (part.type === 'error') {
+    return { ...part, error: { message: part.error instanceof Error ? part.error.message : String(part.error) } };
+  }
+
+  return part;
+}
+
+/**
+ * Creates a model that replays the responses of a fixture instead of calling a provider.
+ */
+export function createReplayModel(modelId: string, loadFixture: () => Promise<MockFixture>): LanguageModelV1 {
+  async function getResponse(options: LanguageModelV1CallOptions) {
+    const fixture = await loadFixture();
+    const index = getResponseIndex(options);
+    const response = fixture.responses[index];
+
+    if (!response) {
+      throw new Error(`Fixture ${modelId} has no response ${index + 1}`);
+    }
+
+    return { parts: getResponseParts(response), delay: fixture.delay ?? 0 };
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    doStream: async (options) => {
+      const { parts, delay } = await getResponse(options);
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        async start(controller) {
+          for (const part of parts) {
+            if (options.abortSignal?.aborted) {
+              break;
+            }
+
+            if (delay) {
+              await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+
+            controller.enqueue(part);
+          }
+
+          controller.close();
+        },
+      });
+
+      return { stream, rawCall };
+    },
+    doGenerate: async (options) => {
+      const { parts } = await getResponse(options);
+      const toolCalls: Omit<StreamPart<'tool-call'>, 'type'>[] = [];
+      let text = '';
+      let reasoning = '';
+      let finish: StreamPart<'finish'> | undefined;
+
+      for (const part of parts) {
+        switch (part.type) {
+          case 'text-delta':
+            text += part.textDelta;
+            break;
+          case 'reasoning':
+            reasoning += part.textDelta;
+            break;
+          case 'tool-call': {
+            const { type: _type, ...toolCall } = part;
+            toolCalls.push(toolCall);
+            break;
+          }
+          case 'finish':
+            finish = part;
+            break;
+          case 'error':
+            throw part.error;
+        }
+      }
+
+      return {
+        text,
+        reasoning: reasoning || undefined,
+        toolCalls,
+        finishReason: finish?.finishReason ?? 'stop',
+        usage: finish?.usage ?? { promptTokens: 0, completionTokens: 0 },
+        providerMetadata: finish?.providerMetadata,
+        rawCall,
+      };
+    },
+  };
+}
+
+/**
+ * Wraps a model to pass each streamed response to `onRecorded` once it finished, with the index it is
+ * replayed at.
+ */
+export function createRecordingModel(
+  model: LanguageModelV1,
+  onRecorded: (index: number, response: MockResponse) => Promise<void>,
+): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: model.provider,
+    modelId: model.modelId,
+    defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+    supportsImageUrls: model.supportsImageUrls,
+    supportsStructuredOutputs: model.supportsStructuredOutputs,
+    doGenerate: (options) => model.doGenerate(options),
+    doStream: async (options) => {
+      const result = await model.doStream(options);
+      const parts: LanguageModelV1StreamPart[] = [];
+
+      const stream = result.stream.pipeThrough(
+        new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            parts.push(serializePart(part));
+            controller.enqueue(part);
+          },
+          flush: () => onRecorded(getResponseIndex(options), { parts }),
+        }),
+      );
+
+      return { ...result, stream };
+    },
+  };
+}
@@ -31,18 +31,21 @@ export default class AmazonBedrockProvider extends BaseProvider {
       label: 'Claude 3.5 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
     },
     {
       name: 'anthropic.claude-3-sonnet-20240229-v1:0',
       label: 'Claude 3 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
     },
     {
       name: 'anthropic.claude-3-haiku-20240307-v1:0',
       label: 'Claude 3 Haiku (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
     },
     {
       name: 'amazon.nova-pro-v1:0',
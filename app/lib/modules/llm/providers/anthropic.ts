@@ -18,28 +18,71 @@ export default class AnthropicProvider extends BaseProvider {
       label: 'Claude 3.7 Sonnet',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      capabilities: { vision: true, toolCalling: true, reasoning: true, promptCaching: true },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
     },
     {
       name: 'claude-3-5-sonnet-latest',
       label: 'Claude 3.5 Sonnet (new)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
     },
     {
       name: 'claude-3-5-sonnet-20240620',
       label: 'Claude 3.5 Sonnet (old)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
     },
     {
       name: 'claude-3-5-haiku-latest',
       label: 'Claude 3.5 Haiku (new)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+    },
+    {
+      name: 'claude-3-opus-latest',
+      label: 'Claude 3 Opus',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+    },
+    {
+      name: 'claude-3-sonnet-20240229',
+      label: 'Claude 3 Sonnet',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    },
+    {
+      name: 'claude-3-haiku-20240307',
+      label: 'Claude 3 Haiku',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
     },
-    { name: 'claude-3-opus-latest', label: 'Claude 3 Opus', provider: 'Anthropic', maxTokenAllowed: 8000 },
-    { name: 'claude-3-sonnet-20240229', label: 'Claude 3 Sonnet', provider: 'Anthropic', maxTokenAllowed: 8000 },
-    { name: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku', provider: 'Anthropic', maxTokenAllowed: 8000 },
   ];
 
   async getDynamicModels(
@@ -76,6 +119,7 @@ export default class AnthropicProvider extends BaseProvider {
       label: `${m.display_name}`,
       provider: this.name,
       maxTokenAllowed: 32000,
+      contextWindow: 200000,
     }));
   }
 
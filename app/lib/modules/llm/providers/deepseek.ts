@@ -13,9 +13,36 @@ export default class DeepseekProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'deepseek-coder', label: 'Deepseek-Coder', provider: 'Deepseek', maxTokenAllowed: 8000 },
-    { name: 'deepseek-chat', label: 'Deepseek-Chat', provider: 'Deepseek', maxTokenAllowed: 8000 },
-    { name: 'deepseek-reasoner', label: 'Deepseek-Reasoner', provider: 'Deepseek', maxTokenAllowed: 8000 },
+    {
+      name: 'deepseek-coder',
+      label: 'Deepseek-Coder',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64000,
+      maxOutputTokens: 8000,
+      capabilities: { vision: false, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 0.27, output: 1.1, cacheRead: 0.07 },
+    },
+    {
+      name: 'deepseek-chat',
+      label: 'Deepseek-Chat',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64000,
+      maxOutputTokens: 8000,
+      capabilities: { vision: false, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 0.27, output: 1.1, cacheRead: 0.07 },
+    },
+    {
+      name: 'deepseek-reasoner',
+      label: 'Deepseek-Reasoner',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64000,
+      maxOutputTokens: 8000,
+      capabilities: { vision: false, toolCalling: false, reasoning: true, promptCaching: true },
+      pricing: { input: 0.55, output: 2.19, cacheRead: 0.14 },
+    },
   ];
 
   getModelInstance(options: {
@@ -0,0 +1,129 @@
+import { BaseProvider } from '~/lib/modules/llm/base-provider';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { IProviderSetting } from '~/types/model';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { createRecordingModel, createReplayModel, type MockFixture } from '~/lib/modules/llm/mock-model';
+import { createScopedLogger } from '~/utils/logger';
+import type { LanguageModelV1 } from 'ai';
+
+const logger = createScopedLogger('MockProvider');
+
+const FIXTURES_DIR_KEY = 'MOCK_LLM_FIXTURES_DIR';
+const RECORD_KEY = 'MOCK_LLM_RECORD';
+
+function getEnv(key: string, serverEnv?: Record<string, string>) {
+  return serverEnv?.[key] || process?.env?.[key] || LLMManager.getInstance().env?.[key];
+}
+
+// the fixtures are files, so the mock provider only works where the server runs on node, like the dev server
+async function readFixture(dir: string, name: string): Promise<MockFixture | undefined> {
+  const { readFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+
+  try {
+    return JSON.parse(await readFile(join(dir, `${name}.json`), 'utf-8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+async function writeFixture(dir: string, name: string, fixture: MockFixture) {
+  const { mkdir, writeFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, `${name}.json`), JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Replays the fixtures in `MOCK_LLM_FIXTURES_DIR`, one model per file, so the chat can be tested and demoed
+ * without calling a provider. When `MOCK_LLM_RECORD` names a fixture, the chat responses of the other
+ * providers are recorded into it.
+ */
+export default class MockProvider extends BaseProvider {
+  name = 'Mock';
+  getApiKeyLink = undefined;
+  icon = 'i-ph:flask';
+
+  config = {};
+
+  staticModels: ModelInfo[] = [];
+
+  async getDynamicModels(
+    _apiKeys?: Record<string, string>,
+    _settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    const dir = getEnv(FIXTURES_DIR_KEY, serverEnv);
+
+    if (!dir) {
+      return [];
+    }
+
+    const { readdir } = await import('node:fs/promises');
+    const files = await readdir(dir).catch(() => [] as string[]);
+
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => {
+        const name = file.slice(0, -'.json'.length);
+        return { name, label: name, provider: this.name, maxTokenAllowed: 8000 };
+      });
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, serverEnv } = options;
+    const dir = getEnv(FIXTURES_DIR_KEY, serverEnv as any);
+
+    if (!dir) {
+      throw new Error(`Missing ${FIXTURES_DIR_KEY} for ${this.name} provider`);
+    }
+
+    return createReplayModel(model, async () => {
+      const fixture = await readFixture(dir, model);
+
+      if (!fixture) {
+        throw new Error(`Fixture ${model} not found in ${dir}`);
+      }
+
+      return fixture;
+    });
+  }
+
+  /**
+   * Records the responses of a model into the fixture named by `MOCK_LLM_RECORD`, or returns the model as is
+   * when nothing is recorded.
+   */
+  static record(model: LanguageModelV1, options: { provider: string; model: string; serverEnv?: Env }) {
+    const dir = getEnv(FIXTURES_DIR_KEY, options.serverEnv as any);
+    const name = getEnv(RECORD_KEY, options.serverEnv as any);
+
+    if (!dir || !name) {
+      return model;
+    }
+
+    return createRecordingModel(model, async (index, response) => {
+      try {
+        const fixture = (await readFixture(dir, name)) ?? { responses: [] };
+
+        fixture.provider = options.provider;
+        fixture.model = options.model;
+        fixture.responses[index] = response;
+
+        await writeFixture(dir, name, fixture);
+        logger.info(`Recorded response ${index + 1} of ${options.provider}/${options.model} into ${name}`);
+      } catch (error) {
+        logger.error(`Failed to record fixture ${name}`, error);
+      }
+    });
+  }
+}
@@ -1,8 +1,8 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
-import type { LanguageModelV1 } from 'ai';
-import { ollama } from 'ollama-ai-provider';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { createOllama, ollama } from 'ollama-ai-provider';
 import { logger } from '~/utils/logger';
 
 interface OllamaModelDetails {
@@ -39,6 +39,8 @@ export default class OllamaProvider extends BaseProvider {
 
   staticModels: ModelInfo[] = [];
 
+  embeddingModels = ['nomic-embed-text', 'mxbai-embed-large'];
+
   private _convertEnvToRecord(env?: Env): Record<string, string> {
     if (!env) {
       return {};
@@ -100,13 +102,12 @@ export default class OllamaProvider extends BaseProvider {
     }));
   }
 
-  getModelInstance: (options: {
-    model: string;
+  private _getBaseUrl(options: {
     serverEnv?: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
-  }) => LanguageModelV1 = (options) => {
-    const { apiKeys, providerSettings, serverEnv, model } = options;
+  }) {
+    const { apiKeys, providerSettings, serverEnv } = options;
     const envRecord = this._convertEnvToRecord(serverEnv);
 
     let { baseUrl } = this.getProviderBaseUrlAndKey({
@@ -128,6 +129,18 @@ export default class OllamaProvider extends BaseProvider {
 
     logger.debug('Ollama Base Url used: ', baseUrl);
 
+    return baseUrl;
+  }
+
+  getModelInstance: (options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) => LanguageModelV1 = (options) => {
+    const { serverEnv, model } = options;
+    const baseUrl = this._getBaseUrl(options);
+
     const ollamaInstance = ollama(model, {
       numCtx: this.getDefaultNumCtx(serverEnv),
     }) as LanguageModelV1 & { config: any };
@@ -136,4 +149,16 @@ export default class OllamaProvider extends BaseProvider {
 
     return ollamaInstance;
   };
+
+  getEmbeddingModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    const ollamaInstance = createOllama({ baseURL: `${this._getBaseUrl(options)}/api` });
+
+    // the provider is built against an older version of the embedding model interface
+    return ollamaInstance.embedding(options.model) as unknown as EmbeddingModel<string>;
+  }
 }
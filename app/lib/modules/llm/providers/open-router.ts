@@ -12,6 +12,13 @@ interface OpenRouterModel {
     prompt: number;
     completion: number;
   };
+  architecture?: {
+    modality?: string;
+  };
+  top_provider?: {
+    max_completion_tokens?: number | null;
+  };
+  supported_parameters?: string[];
 }
 
 interface OpenRouterModelsResponse {
@@ -94,6 +101,14 @@ export default class OpenRouterProvider extends BaseProvider {
           label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
           provider: this.name,
           maxTokenAllowed: 8000,
+          contextWindow: m.context_length,
+          maxOutputTokens: m.top_provider?.max_completion_tokens ?? undefined,
+          capabilities: {
+            vision: m.architecture?.modality?.split('->')[0].includes('image'),
+            toolCalling: m.supported_parameters?.includes('tools'),
+            reasoning: m.supported_parameters?.includes('reasoning'),
+          },
+          pricing: { input: m.pricing.prompt * 1_000_000, output: m.pricing.completion * 1_000_000 },
         }));
     } catch (error) {
       console.error('Error getting OpenRouter models:', error);
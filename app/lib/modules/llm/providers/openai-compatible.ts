@@ -0,0 +1,133 @@
+import { BaseProvider } from '~/lib/modules/llm/base-provider';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { IProviderSetting } from '~/types/model';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+
+/**
+ * An OpenAI-compatible endpoint added by the user, like a vLLM gateway or a LiteLLM proxy. Its base URL,
+ * headers and models come from the provider settings and its key from the API keys, so the instance only
+ * holds the name. Not exported from the registry because every endpoint gets its own instance.
+ */
+export default class OpenAICompatibleProvider extends BaseProvider {
+  name: string;
+  getApiKeyLink = undefined;
+  icon = 'i-ph:plugs-connected';
+
+  config = {};
+
+  staticModels: ModelInfo[] = [];
+
+  embeddingModels: string[] = [];
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  private _getEndpoint(options: {
+    apiKeys?: Record<string, string>;
+    settings?: IProviderSetting;
+    serverEnv?: Record<string, string>;
+  }) {
+    const { apiKeys, settings, serverEnv } = options;
+    const endpoint = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: settings,
+      serverEnv,
+      defaultBaseUrlKey: '',
+      defaultApiTokenKey: '',
+    });
+    let { baseUrl } = endpoint;
+
+    if (!baseUrl) {
+      throw new Error(`No base URL set for ${this.name} provider`);
+    }
+
+    const isDocker = process?.env?.RUNNING_IN_DOCKER === 'true' || serverEnv?.RUNNING_IN_DOCKER === 'true';
+
+    if (settings?.local && isDocker && typeof window === 'undefined') {
+      baseUrl = baseUrl.replace('localhost', 'host.docker.internal').replace('127.0.0.1', 'host.docker.internal');
+    }
+
+    return { baseUrl, apiKey: endpoint.apiKey, headers: settings?.headers ?? {} };
+  }
+
+  async getDynamicModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    if (!settings?.baseUrl) {
+      return [];
+    }
+
+    const toModelInfo = (name: string): ModelInfo => ({
+      name,
+      label: name,
+      provider: this.name,
+      maxTokenAllowed: 8000,
+    });
+
+    if (settings.models?.length) {
+      return settings.models.map(toModelInfo);
+    }
+
+    const { baseUrl, apiKey, headers } = this._getEndpoint({ apiKeys, settings, serverEnv });
+
+    const response = await fetch(`${baseUrl}/models`, {
+      headers: {
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        ...headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list models of ${this.name}: ${response.status} ${response.statusText}`);
+    }
+
+    const res = (await response.json()) as { data: Array<{ id: string }> };
+
+    return res.data.map((model) => toModelInfo(model.id));
+  }
+
+  private _createOpenAI(options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) {
+    const { serverEnv, apiKeys, providerSettings } = options;
+
+    const { baseUrl, apiKey, headers } = this._getEndpoint({
+      apiKeys,
+      settings: providerSettings?.[this.name],
+      serverEnv: serverEnv as any,
+    });
+
+    return createOpenAI({
+      baseURL: baseUrl,
+
+      // endpoints without authentication still need a key, or the SDK looks for OPENAI_API_KEY
+      apiKey: apiKey ?? '',
+      headers,
+    });
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    return this._createOpenAI(options)(options.model);
+  }
+
+  getEmbeddingModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    return this._createOpenAI(options).embedding(options.model);
+  }
+}
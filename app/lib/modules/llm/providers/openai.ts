@@ -1,7 +1,7 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
-import type { LanguageModelV1 } from 'ai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 
 export default class OpenAIProvider extends BaseProvider {
@@ -13,11 +13,56 @@ export default class OpenAIProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4-turbo', label: 'GPT-4 Turbo', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4', label: 'GPT-4', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'OpenAI', maxTokenAllowed: 8000 },
+    {
+      name: 'gpt-4o',
+      label: 'GPT-4o',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 2.5, output: 10, cacheRead: 1.25 },
+    },
+    {
+      name: 'gpt-4o-mini',
+      label: 'GPT-4o Mini',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: true },
+      pricing: { input: 0.15, output: 0.6, cacheRead: 0.075 },
+    },
+    {
+      name: 'gpt-4-turbo',
+      label: 'GPT-4 Turbo',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      maxOutputTokens: 4096,
+      capabilities: { vision: true, toolCalling: true, reasoning: false, promptCaching: false },
+      pricing: { input: 10, output: 30 },
+    },
+    {
+      name: 'gpt-4',
+      label: 'GPT-4',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      maxOutputTokens: 8192,
+      capabilities: { vision: false, toolCalling: true, reasoning: false, promptCaching: false },
+      pricing: { input: 30, output: 60 },
+    },
+    {
+      name: 'gpt-3.5-turbo',
+      label: 'GPT-3.5 Turbo',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 16385,
+      maxOutputTokens: 4096,
+      capabilities: { vision: false, toolCalling: true, reasoning: false, promptCaching: false },
+      pricing: { input: 0.5, output: 1.5 },
+    },
   ];
 
   async getDynamicModels(
@@ -57,17 +102,19 @@ export default class OpenAIProvider extends BaseProvider {
       name: m.id,
       label: `${m.id}`,
       provider: this.name,
-      maxTokenAllowed: m.context_window || 32000,
+      maxTokenAllowed: 8000,
+      contextWindow: m.context_window,
     }));
   }
 
-  getModelInstance(options: {
-    model: string;
-    serverEnv: Env;
+  embeddingModels = ['text-embedding-3-small', 'text-embedding-3-large'];
+
+  private _createOpenAI(options: {
+    serverEnv?: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
-  }): LanguageModelV1 {
-    const { model, serverEnv, apiKeys, providerSettings } = options;
+  }) {
+    const { serverEnv, apiKeys, providerSettings } = options;
 
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
@@ -81,10 +128,26 @@ export default class OpenAIProvider extends BaseProvider {
       throw new Error(`Missing API key for ${this.name} provider`);
     }
 
-    const openai = createOpenAI({
+    return createOpenAI({
       apiKey,
     });
+  }
 
-    return openai(model);
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    return this._createOpenAI(options)(options.model);
+  }
+
+  getEmbeddingModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    return this._createOpenAI(options).embedding(options.model);
   }
 }
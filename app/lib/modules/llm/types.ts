@@ -1,11 +1,41 @@
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 
+// prices in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+
+  // prompt tokens read from or written to the prompt cache, priced as input when missing
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface ModelCapabilities {
+  vision?: boolean;
+  toolCalling?: boolean;
+  reasoning?: boolean;
+  promptCaching?: boolean;
+}
+
+export type ModelCapability = keyof ModelCapabilities;
+
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
+
+  // the output limit, kept for providers that don't set `maxOutputTokens`
   maxTokenAllowed: number;
+
+  // tokens of prompt and output combined
+  contextWindow?: number;
+  maxOutputTokens?: number;
+
+  // how often a response is continued after it hit the output limit, for models with a small output limit
+  maxResponseSegments?: number;
+  capabilities?: ModelCapabilities;
+  pricing?: ModelPricing;
 }
 
 export interface ProviderInfo {
@@ -25,6 +55,7 @@ export interface ProviderInfo {
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
+  embeddingModels?: string[];
 }
 export interface ProviderConfig {
   baseUrlKey?: string;
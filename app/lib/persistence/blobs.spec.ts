@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { deleteUnreferencedBlobs, hashFiles, MissingBlobsError } from './blobs';
+import { deleteById, openDatabase, setMessages } from './db';
+import { getSnapshot, setSnapshot } from './snapshots';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+let db: IDBDatabase;
+
+beforeAll(async () => {
+  db = (await openDatabase()) as IDBDatabase;
+});
+
+function hasBlob(hash: string) {
+  return new Promise<boolean>((resolve, reject) => {
+    const request = db.transaction('blobs', 'readonly').objectStore('blobs').getKey(hash);
+
+    request.onsuccess = () => resolve(request.result !== undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function deleteBlob(hash: string) {
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction('blobs', 'readwrite');
+
+    transaction.objectStore('blobs').delete(hash);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function getHash(content: string) {
+  const { entries } = await hashFiles({ '/home/project/hash.ts': file(content) });
+  const entry = entries['/home/project/hash.ts'];
+
+  return entry.type === 'file' ? entry.hash : '';
+}
+
+describe('deleteUnreferencedBlobs', () => {
+  it('should delete the contents that overwritten snapshots left behind', async () => {
+    await setSnapshot(db, 'overwrite', { chatIndex: 'message_1', files: { '/home/project/a.ts': file('version 1') } });
+    await setSnapshot(db, 'overwrite', { chatIndex: 'message_2', files: { '/home/project/a.ts': file('version 2') } });
+
+    expect(await deleteUnreferencedBlobs(db)).toBe(1);
+    expect(await hasBlob(await getHash('version 1'))).toBe(false);
+    expect(await hasBlob(await getHash('version 2'))).toBe(true);
+  });
+
+  it('should store contents again after they were deleted', async () => {
+    const files = { '/home/project/a.ts': file('restored') };
+
+    await setSnapshot(db, 'restored', { chatIndex: 'message_1', files });
+    await setSnapshot(db, 'restored', { chatIndex: 'message_2', files: {} });
+    await deleteUnreferencedBlobs(db);
+    await setSnapshot(db, 'restored', { chatIndex: 'message_3', files });
+
+    expect((await getSnapshot(db, 'restored'))?.files).toEqual(files);
+  });
+
+  it('should store contents again that another tab deleted', async () => {
+    const files = { '/home/project/a.ts': file('other tab') };
+
+    await setSnapshot(db, 'other-tab', { chatIndex: 'message_1', files });
+
+    // the blob is gone without this tab knowing, like after a cleanup in another tab
+    await deleteBlob(await getHash('other tab'));
+    await setSnapshot(db, 'other-tab', { chatIndex: 'message_2', files });
+
+    expect((await getSnapshot(db, 'other-tab'))?.files).toEqual(files);
+  });
+
+  it('should keep the contents shared with other chats when a chat is deleted', async () => {
+    await setMessages(db, 'deleted', [], 'deleted-url');
+    await setSnapshot(db, 'deleted-url', {
+      chatIndex: 'message_1',
+      files: { '/home/project/shared.ts': file('shared'), '/home/project/own.ts': file('own') },
+    });
+    await setSnapshot(db, 'other', { chatIndex: 'message_1', files: { '/home/project/shared.ts': file('shared') } });
+
+    await deleteById(db, 'deleted');
+
+    expect(await getSnapshot(db, 'deleted-url')).toBeUndefined();
+    expect(await hasBlob(await getHash('own'))).toBe(false);
+    expect(await hasBlob(await getHash('shared'))).toBe(true);
+  });
+});
+
+describe('readFiles', () => {
+  it('should fail with the paths whose content is missing', async () => {
+    await setSnapshot(db, 'missing', {
+      chatIndex: 'message_1',
+      files: { '/home/project/kept.ts': file('kept'), '/home/project/lost.ts': file('lost') },
+    });
+
+    await deleteBlob(await getHash('lost'));
+
+    const error = await getSnapshot(db, 'missing').catch((error) => error);
+
+    expect(error).toBeInstanceOf(MissingBlobsError);
+    expect(error.paths).toEqual(['/home/project/lost.ts']);
+  });
+});
@@ -0,0 +1,180 @@
+import { Buffer } from 'node:buffer';
+import type { File, FileMap } from '~/lib/stores/files';
+
+/**
+ * A file map whose file contents are replaced by the hash of the content in the `blobs` store.
+ */
+export type StoredFileMap = Record<string, { type: 'folder' } | { type: 'file'; hash: string; isBinary: boolean }>;
+
+/**
+ * Binary files are kept as base64 in the file map but stored as their bytes.
+ */
+interface StoredBlob {
+  hash: string;
+  content: string | Uint8Array;
+}
+
+/**
+ * Hashes of the previous content of every file, files are stored over and over again while a response
+ * streams in but only a few of them change.
+ */
+const hashCache = new Map<string, { content: string; hash: string }>();
+
+/**
+ * Thrown when a stored file map references content that is not in the `blobs` store.
+ */
+export class MissingBlobsError extends Error {
+  constructor(readonly paths: string[]) {
+    super(`The stored content of ${paths.length} file(s) is missing: ${paths.join(', ')}`);
+    this.name = 'MissingBlobsError';
+  }
+}
+
+export async function hashFiles(files: FileMap) {
+  const entries: StoredFileMap = {};
+  const blobs = new Map<string, File>();
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'folder') {
+      entries[filePath] = { type: 'folder' };
+    } else if (dirent?.type === 'file') {
+      const hash = await hashFile(filePath, dirent);
+
+      entries[filePath] = { type: 'file', hash, isBinary: dirent.isBinary };
+      blobs.set(hash, dirent);
+    }
+  }
+
+  return { entries, blobs };
+}
+
+/**
+ * Adds the contents to the `blobs` store of a `readwrite` transaction. Every content is added again, another
+ * tab can have deleted it since, and the ones that are stored already fail without aborting the transaction.
+ */
+export function putBlobs(transaction: IDBTransaction, blobs: Map<string, File>) {
+  const blobStore = transaction.objectStore('blobs');
+
+  for (const [hash, file] of blobs) {
+    const request = blobStore.add({ hash, content: encodeContent(file) } satisfies StoredBlob);
+
+    request.onerror = (event) => {
+      // the content is stored already
+      if (request.error?.name === 'ConstraintError') {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+  }
+}
+
+/**
+ * Reads the contents of a stored file map. The returned map is filled once the transaction completes,
+ * `missing` then holds the paths whose content is not in the `blobs` store.
+ */
+export function readFiles(transaction: IDBTransaction, entries: StoredFileMap) {
+  const files: FileMap = {};
+  const missing: string[] = [];
+  const blobStore = transaction.objectStore('blobs');
+
+  for (const [filePath, entry] of Object.entries(entries)) {
+    if (entry.type === 'folder') {
+      files[filePath] = { type: 'folder' };
+      continue;
+    }
+
+    const request = blobStore.get(entry.hash);
+
+    request.onsuccess = () => {
+      const blob = request.result as StoredBlob | undefined;
+
+      if (!blob) {
+        missing.push(filePath);
+        return;
+      }
+
+      files[filePath] = {
+        type: 'file',
+        content: decodeContent(blob.content, entry.isBinary),
+        isBinary: entry.isBinary,
+      };
+    };
+  }
+
+  return { files, missing };
+}
+
+/**
+ * Deletes the blobs that no snapshot or checkpoint references anymore. Snapshots are overwritten and chats
+ * deleted without touching the blobs, as their contents can be shared with other chats.
+ */
+export async function deleteUnreferencedBlobs(db: IDBDatabase) {
+  return new Promise<number>((resolve, reject) => {
+    const transaction = db.transaction(['snapshots', 'checkpoints', 'blobs'], 'readwrite');
+    const referencedHashes = new Set<string>();
+    let deletedCount = 0;
+
+    const collectHashes = (request: IDBRequest) => {
+      request.onsuccess = () => {
+        for (const { files } of request.result as { files: StoredFileMap }[]) {
+          for (const entry of Object.values(files)) {
+            if (entry.type === 'file') {
+              referencedHashes.add(entry.hash);
+            }
+          }
+        }
+      };
+    };
+
+    collectHashes(transaction.objectStore('snapshots').getAll());
+    collectHashes(transaction.objectStore('checkpoints').getAll());
+
+    // requests of a transaction run in order, so all references are collected once the keys are read
+    const keysRequest = transaction.objectStore('blobs').getAllKeys();
+
+    keysRequest.onsuccess = () => {
+      for (const hash of keysRequest.result) {
+        if (!referencedHashes.has(hash as string)) {
+          transaction.objectStore('blobs').delete(hash);
+          deletedCount++;
+        }
+      }
+    };
+
+    transaction.oncomplete = () => resolve(deletedCount);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function encodeContent(file: File) {
+  return file.isBinary ? Buffer.from(file.content, 'base64') : file.content;
+}
+
+/**
+ * Converts stored content back to the representation of the file map, a blob can be shared by a
+ * text and a binary file with the same bytes.
+ */
+function decodeContent(content: StoredBlob['content'], isBinary: boolean) {
+  if (typeof content === 'string') {
+    return isBinary ? Buffer.from(content, 'utf8').toString('base64') : content;
+  }
+
+  return Buffer.from(content).toString(isBinary ? 'base64' : 'utf8');
+}
+
+async function hashFile(filePath: string, file: File) {
+  const cached = hashCache.get(filePath);
+
+  if (cached?.content === file.content) {
+    return cached.hash;
+  }
+
+  const content = encodeContent(file);
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+  hashCache.set(filePath, { content: file.content, hash });
+
+  return hash;
+}
@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import type { Message } from 'ai';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getCheckpoint, getCheckpointMessageIds, rewindToCheckpoint, setCheckpoint } from './checkpoints';
+import { getMessages, openDatabase, setMessages } from './db';
+import { getSnapshot } from './snapshots';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const messages: Message[] = [
+  { id: 'user_1', role: 'user', content: 'build an app' },
+  {
+    id: 'assistant_1',
+    role: 'assistant',
+    content: 'done',
+    annotations: [{ chatId: 'assistant_1', type: 'chatSummary', summary: 'an app' }],
+  },
+  { id: 'user_2', role: 'user', content: 'remove the styles' },
+  { id: 'assistant_2', role: 'assistant', content: 'removed' },
+];
+
+const firstFiles = {
+  '/home/project/src': { type: 'folder' as const },
+  '/home/project/src/index.ts': file('render()'),
+  '/home/project/src/styles.css': file('body {}'),
+};
+
+const secondFiles = {
+  '/home/project/src': { type: 'folder' as const },
+  '/home/project/src/index.ts': file('render()'),
+};
+
+let db: IDBDatabase;
+
+beforeAll(async () => {
+  db = (await openDatabase()) as IDBDatabase;
+
+  await setMessages(db, '1', messages, 'my-app', 'My app');
+  await setCheckpoint(db, '1', 'assistant_1', firstFiles);
+  await setCheckpoint(db, '1', 'assistant_2', secondFiles);
+});
+
+describe('setCheckpoint', () => {
+  it('should store the files of every assistant message', async () => {
+    expect(await getCheckpoint(db, '1', 'assistant_1')).toEqual(firstFiles);
+    expect(await getCheckpoint(db, '1', 'assistant_2')).toEqual(secondFiles);
+    expect(await getCheckpointMessageIds(db, '1')).toEqual(['assistant_1', 'assistant_2']);
+  });
+
+  it('should return nothing for messages without a checkpoint', async () => {
+    expect(await getCheckpoint(db, '1', 'user_1')).toBeUndefined();
+  });
+});
+
+describe('rewindToCheckpoint', () => {
+  it('should drop the later messages and store the checkpoint as the snapshot of the chat', async () => {
+    expect(await rewindToCheckpoint(db, '1', 'assistant_1')).toBe('my-app');
+
+    expect((await getMessages(db, '1')).messages.map((message) => message.id)).toEqual(['user_1', 'assistant_1']);
+    expect(await getSnapshot(db, 'my-app')).toEqual({ chatIndex: 'assistant_1', files: firstFiles, summary: 'an app' });
+  });
+
+  it('should fail for messages without a checkpoint', async () => {
+    await expect(rewindToCheckpoint(db, '1', 'user_1')).rejects.toThrow('No checkpoint was recorded for this message');
+  });
+});
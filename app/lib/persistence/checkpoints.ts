@@ -0,0 +1,133 @@
+import type { FileMap } from '~/lib/stores/files';
+import type { ContextAnnotation } from '~/types/context';
+import { hashFiles, MissingBlobsError, putBlobs, readFiles, type StoredFileMap } from './blobs';
+import { getMessages, setMessages } from './db';
+import { setSnapshot } from './snapshots';
+
+/**
+ * Files of the project after an assistant message. The contents live in the `blobs` store, keyed by
+ * their hash, so files that did not change between messages are only stored once.
+ */
+export interface Checkpoint {
+  id: string;
+  chatId: string;
+  messageId: string;
+  timestamp: string;
+  files: StoredFileMap;
+}
+
+export async function setCheckpoint(db: IDBDatabase, chatId: string, messageId: string, files: FileMap) {
+  const { entries, blobs } = await hashFiles(files);
+
+  const checkpoint: Checkpoint = {
+    id: getCheckpointId(chatId, messageId),
+    chatId,
+    messageId,
+    timestamp: new Date().toISOString(),
+    files: entries,
+  };
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['checkpoints', 'blobs'], 'readwrite');
+
+    putBlobs(transaction, blobs);
+    transaction.objectStore('checkpoints').put(checkpoint);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getCheckpoint(db: IDBDatabase, chatId: string, messageId: string): Promise<FileMap | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['checkpoints', 'blobs'], 'readonly');
+    const request = transaction.objectStore('checkpoints').get(getCheckpointId(chatId, messageId));
+
+    request.onsuccess = () => {
+      const checkpoint = request.result as Checkpoint | undefined;
+
+      if (!checkpoint) {
+        resolve(undefined);
+        return;
+      }
+
+      const { files, missing } = readFiles(transaction, checkpoint.files);
+
+      transaction.oncomplete = () => {
+        if (missing.length > 0) {
+          reject(new MissingBlobsError(missing));
+          return;
+        }
+
+        resolve(files);
+      };
+    };
+
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Returns the ids of all messages of a chat that have a checkpoint.
+ */
+export async function getCheckpointMessageIds(db: IDBDatabase, chatId: string): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readonly');
+    const request = transaction.objectStore('checkpoints').index('chatId').getAll(IDBKeyRange.only(chatId));
+
+    request.onsuccess = () => resolve((request.result as Checkpoint[]).map((checkpoint) => checkpoint.messageId));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Drops all messages after the given one and stores its checkpoint as the snapshot of the chat, so the
+ * project is restored from it the next time the chat is loaded. Returns the id to navigate to.
+ */
+export async function rewindToCheckpoint(db: IDBDatabase, chatId: string, messageId: string) {
+  const chat = await getMessages(db, chatId);
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  const messageIndex = chat.messages.findIndex((message) => message.id === messageId);
+
+  if (messageIndex === -1) {
+    throw new Error('Message not found');
+  }
+
+  const files = await getCheckpoint(db, chat.id, messageId);
+
+  if (!files) {
+    throw new Error('No checkpoint was recorded for this message');
+  }
+
+  const summaryAnnotation = (chat.messages[messageIndex].annotations as ContextAnnotation[] | undefined)?.find(
+    (annotation) => annotation && typeof annotation === 'object' && annotation.type === 'chatSummary',
+  );
+
+  const id = chat.urlId ?? chat.id;
+
+  await setSnapshot(db, id, {
+    chatIndex: messageId,
+    files,
+    summary: summaryAnnotation?.type === 'chatSummary' ? summaryAnnotation.summary : undefined,
+  });
+
+  await setMessages(
+    db,
+    chat.id,
+    chat.messages.slice(0, messageIndex + 1),
+    chat.urlId,
+    chat.description,
+    undefined,
+    chat.metadata,
+  );
+
+  return id;
+}
+
+function getCheckpointId(chatId: string, messageId: string) {
+  return `${chatId}:${messageId}`;
+}
@@ -1,5 +1,7 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
+import { deleteUnreferencedBlobs } from './blobs';
+import { migrateLegacySnapshots } from './snapshots';
 import type { ChatHistoryItem } from './useChatHistory';
 
 export interface IChatMetadata {
@@ -18,7 +20,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    const request = indexedDB.open('boltHistory', 5);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -28,10 +30,39 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      if (!db.objectStoreNames.contains('checkpoints')) {
+        const store = db.createObjectStore('checkpoints', { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('blobs')) {
+        db.createObjectStore('blobs', { keyPath: 'hash' });
+      }
+
+      if (!db.objectStoreNames.contains('snapshots')) {
+        db.createObjectStore('snapshots', { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains('usage')) {
+        const store = db.createObjectStore('usage', { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('prompts')) {
+        db.createObjectStore('prompts', { keyPath: 'id' });
+      }
     };
 
-    request.onsuccess = (event: Event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+    request.onsuccess = async (event: Event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      await migrateLegacySnapshots(db);
+
+      // overwritten snapshots and checkpoints leave the previous contents of their files behind
+      await deleteUnreferencedBlobs(db).catch((error) => logger.error('Failed to delete unreferenced blobs', error));
+
+      resolve(db);
     };
 
     request.onerror = (event: Event) => {
@@ -112,14 +143,38 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 }
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
+  await new Promise((resolve, reject) => {
+    const transaction = db.transaction(['chats', 'checkpoints', 'snapshots'], 'readwrite');
     const store = transaction.objectStore('chats');
+
+    // the snapshot is stored under the url id when the chat has one
+    store.get(id).onsuccess = (event) => {
+      const chat = (event.target as IDBRequest<ChatHistoryItem | undefined>).result;
+
+      transaction.objectStore('snapshots').delete(id);
+
+      if (chat?.urlId) {
+        transaction.objectStore('snapshots').delete(chat.urlId);
+      }
+    };
+
     const request = store.delete(id);
 
-    request.onsuccess = () => resolve(undefined);
+    // file contents are shared between chats, the ones no other chat references are deleted afterwards
+    transaction.objectStore('checkpoints').index('chatId').openKeyCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+
+      if (cursor) {
+        transaction.objectStore('checkpoints').delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => resolve(undefined);
     request.onerror = () => reject(request.error);
   });
+
+  await deleteUnreferencedBlobs(db);
 }
 
 export async function getNextId(db: IDBDatabase): Promise<string> {
@@ -1,3 +1,7 @@
 export * from './localStorage';
 export * from './db';
+export * from './checkpoints';
+export * from './snapshots';
+export * from './usage';
+export * from './prompts';
 export * from './useChatHistory';
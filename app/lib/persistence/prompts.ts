@@ -0,0 +1,43 @@
+/**
+ * A system prompt written by the user. Every save adds a version, the last version is the one in use.
+ */
+export interface UserPrompt {
+  id: string;
+  label: string;
+  description: string;
+  versions: UserPromptVersion[];
+}
+
+export interface UserPromptVersion {
+  content: string;
+  timestamp: string;
+}
+
+export async function getAllPrompts(db: IDBDatabase): Promise<UserPrompt[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('prompts', 'readonly').objectStore('prompts').getAll();
+
+    request.onsuccess = () => resolve(request.result as UserPrompt[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setPrompt(db: IDBDatabase, prompt: UserPrompt): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('prompts', 'readwrite');
+
+    transaction.objectStore('prompts').put(prompt);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deletePrompt(db: IDBDatabase, id: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('prompts', 'readwrite');
+
+    transaction.objectStore('prompts').delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,97 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { hashFiles, putBlobs } from './blobs';
+import { openDatabase } from './db';
+import { getSnapshot, migrateLegacySnapshots, setSnapshot } from './snapshots';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+let db: IDBDatabase;
+
+beforeAll(async () => {
+  db = (await openDatabase()) as IDBDatabase;
+});
+
+function countBlobs() {
+  return new Promise<number>((resolve, reject) => {
+    const request = db.transaction('blobs', 'readonly').objectStore('blobs').count();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('setSnapshot', () => {
+  it('should restore the files of a stored snapshot', async () => {
+    const files = {
+      '/home/project/src': { type: 'folder' as const },
+      '/home/project/src/index.ts': file('console.log("hello")'),
+      '/home/project/logo.png': { type: 'file' as const, content: 'iVBORw0KGgo=', isBinary: true },
+    };
+
+    await setSnapshot(db, 'restore', { chatIndex: 'message_1', files, summary: 'a summary' });
+
+    expect(await getSnapshot(db, 'restore')).toEqual({ chatIndex: 'message_1', files, summary: 'a summary' });
+  });
+
+  it('should store the content of unchanged files once', async () => {
+    const blobCount = await countBlobs();
+
+    await setSnapshot(db, 'dedupe', { chatIndex: 'message_1', files: { '/home/project/a.ts': file('dedupe a') } });
+    await setSnapshot(db, 'dedupe', {
+      chatIndex: 'message_2',
+      files: { '/home/project/a.ts': file('dedupe a'), '/home/project/b.ts': file('dedupe a') },
+    });
+
+    expect(await countBlobs()).toBe(blobCount + 1);
+  });
+
+  it('should return nothing for unknown snapshots', async () => {
+    expect(await getSnapshot(db, 'unknown')).toBeUndefined();
+  });
+});
+
+describe('putBlobs', () => {
+  it('should store blobs again when the transaction storing them aborted', async () => {
+    const files = { '/home/project/aborted.ts': file('aborted') };
+    const { blobs } = await hashFiles(files);
+
+    await new Promise<void>((resolve) => {
+      const transaction = db.transaction('blobs', 'readwrite');
+
+      putBlobs(transaction, blobs);
+
+      // the blob is added successfully before the transaction fails
+      transaction.objectStore('blobs').get('unknown').onsuccess = () => transaction.abort();
+      transaction.onabort = () => resolve();
+    });
+
+    await setSnapshot(db, 'aborted', { chatIndex: 'message_1', files });
+
+    expect((await getSnapshot(db, 'aborted'))?.files).toEqual(files);
+  });
+});
+
+describe('migrateLegacySnapshots', () => {
+  it('should move the snapshots from localStorage into the database', async () => {
+    const files = { '/home/project/legacy.ts': file('legacy') };
+    const storage: Record<string, string> = {
+      'snapshot:legacy': JSON.stringify({ chatIndex: 'message_1', files }),
+      bolt_theme: 'dark',
+    };
+
+    vi.stubGlobal('localStorage', {
+      ...storage,
+      getItem: (key: string) => storage[key] ?? null,
+      removeItem: vi.fn(),
+    });
+
+    await migrateLegacySnapshots(db);
+
+    expect(await getSnapshot(db, 'legacy')).toEqual({ chatIndex: 'message_1', files, summary: undefined });
+    expect(localStorage.removeItem).toHaveBeenCalledWith('snapshot:legacy');
+    expect(localStorage.removeItem).toHaveBeenCalledTimes(1);
+
+    vi.unstubAllGlobals();
+  });
+});
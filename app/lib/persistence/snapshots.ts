@@ -0,0 +1,96 @@
+import { createScopedLogger } from '~/utils/logger';
+import { hashFiles, MissingBlobsError, putBlobs, readFiles, type StoredFileMap } from './blobs';
+import type { Snapshot } from './types';
+
+/**
+ * The latest project files of a chat, keyed by the url id (or id) of the chat. The contents live in the
+ * `blobs` store so unchanged files are only written once.
+ */
+interface StoredSnapshot {
+  id: string;
+  chatIndex: string;
+  files: StoredFileMap;
+  summary?: string;
+}
+
+const LEGACY_SNAPSHOT_PREFIX = 'snapshot:';
+
+const logger = createScopedLogger('Snapshots');
+
+export async function setSnapshot(db: IDBDatabase, id: string, snapshot: Snapshot) {
+  const { entries, blobs } = await hashFiles(snapshot.files);
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['snapshots', 'blobs'], 'readwrite');
+
+    putBlobs(transaction, blobs);
+    transaction.objectStore('snapshots').put({
+      id,
+      chatIndex: snapshot.chatIndex,
+      files: entries,
+      summary: snapshot.summary,
+    } satisfies StoredSnapshot);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getSnapshot(db: IDBDatabase, id: string): Promise<Snapshot | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['snapshots', 'blobs'], 'readonly');
+    const request = transaction.objectStore('snapshots').get(id);
+
+    request.onsuccess = () => {
+      const snapshot = request.result as StoredSnapshot | undefined;
+
+      if (!snapshot) {
+        resolve(undefined);
+        return;
+      }
+
+      const { files, missing } = readFiles(transaction, snapshot.files);
+
+      transaction.oncomplete = () => {
+        if (missing.length > 0) {
+          reject(new MissingBlobsError(missing));
+          return;
+        }
+
+        resolve({ chatIndex: snapshot.chatIndex, files, summary: snapshot.summary });
+      };
+    };
+
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Moves the snapshots that older versions kept in localStorage into the database. A snapshot is only
+ * removed from localStorage once it is stored, so a failed migration is retried on the next start.
+ */
+export async function migrateLegacySnapshots(db: IDBDatabase) {
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(LEGACY_SNAPSHOT_PREFIX));
+
+  for (const key of keys) {
+    try {
+      const snapshot = JSON.parse(localStorage.getItem(key) ?? 'null') as Snapshot | null;
+
+      if (snapshot?.files) {
+        await setSnapshot(db, key.slice(LEGACY_SNAPSHOT_PREFIX.length), {
+          chatIndex: String(snapshot.chatIndex),
+          files: snapshot.files,
+          summary: snapshot.summary,
+        });
+      }
+
+      localStorage.removeItem(key);
+    } catch (error) {
+      logger.error(`Failed to migrate ${key}`, error);
+    }
+  }
+}
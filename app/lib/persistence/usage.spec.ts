@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { getMonthlyUsage, getUsageByChat, type UsageRecord } from './usage';
+
+const records: UsageRecord[] = [
+  {
+    id: 'message_1',
+    chatId: '1',
+    timestamp: new Date(2025, 0, 10).toISOString(),
+    promptTokens: 1000,
+    completionTokens: 500,
+    cost: 0.01,
+    models: [{ provider: 'Anthropic', model: 'claude', promptTokens: 1000, completionTokens: 500, cost: 0.01 }],
+  },
+  {
+    id: 'message_2',
+    chatId: '1',
+    timestamp: new Date(2025, 1, 3).toISOString(),
+    promptTokens: 3000,
+    completionTokens: 1000,
+    models: [
+      { provider: 'Anthropic', model: 'claude', promptTokens: 2000, completionTokens: 500, cost: 0.02 },
+      { provider: 'Ollama', model: 'llama', promptTokens: 1000, completionTokens: 500 },
+    ],
+  },
+  {
+    id: 'message_3',
+    chatId: '2',
+    timestamp: new Date(2025, 1, 4).toISOString(),
+    promptTokens: 100,
+    completionTokens: 100,
+    cost: 0.5,
+    models: [{ provider: 'OpenAI', model: 'gpt-4o', promptTokens: 100, completionTokens: 100, cost: 0.5 }],
+  },
+];
+
+describe('getUsageByChat', () => {
+  it('should sum up the usage of each chat', () => {
+    expect(getUsageByChat(records)).toEqual(
+      new Map([
+        ['1', { promptTokens: 4000, completionTokens: 1500, cost: 0.03, incomplete: true }],
+        ['2', { promptTokens: 100, completionTokens: 100, cost: 0.5, incomplete: false }],
+      ]),
+    );
+  });
+});
+
+describe('getMonthlyUsage', () => {
+  it('should sum up the usage of each provider per month', () => {
+    expect(getMonthlyUsage(records)).toEqual([
+      {
+        month: '2025-02',
+        promptTokens: 3100,
+        completionTokens: 1100,
+        cost: 0.52,
+        incomplete: true,
+        providers: [
+          { provider: 'OpenAI', promptTokens: 100, completionTokens: 100, cost: 0.5, incomplete: false },
+          { provider: 'Anthropic', promptTokens: 2000, completionTokens: 500, cost: 0.02, incomplete: false },
+          { provider: 'Ollama', promptTokens: 1000, completionTokens: 500, cost: 0, incomplete: true },
+        ],
+      },
+      {
+        month: '2025-01',
+        promptTokens: 1000,
+        completionTokens: 500,
+        cost: 0.01,
+        incomplete: false,
+        providers: [
+          { provider: 'Anthropic', promptTokens: 1000, completionTokens: 500, cost: 0.01, incomplete: false },
+        ],
+      },
+    ]);
+  });
+});
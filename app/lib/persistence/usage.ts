@@ -0,0 +1,144 @@
+import type { JSONValue, Message } from 'ai';
+import type { ModelUsage, UsageAnnotation } from '~/types/context';
+
+/**
+ * The token usage and cost of an assistant message. Records are keyed by the message id and outlive the
+ * chat they belong to, so deleting or rewinding a chat doesn't change what was spent.
+ */
+export interface UsageRecord {
+  id: string;
+  chatId: string;
+  timestamp: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+  models: ModelUsage[];
+}
+
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+
+  // whether some usage had no known pricing, so the cost is a lower bound
+  incomplete: boolean;
+}
+
+const recordedMessages = new Set<string>();
+
+export function getUsageAnnotation(message: Message) {
+  return (message.annotations as JSONValue[] | undefined)?.find(
+    (annotation): annotation is UsageAnnotation =>
+      !!annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === 'usage',
+  );
+}
+
+/**
+ * Records the usage of an assistant message once its response is complete, which is when the server
+ * sends the usage annotation.
+ */
+export async function recordUsage(db: IDBDatabase, chatId: string, message: Message) {
+  const annotation = getUsageAnnotation(message);
+
+  if (!annotation || recordedMessages.has(message.id)) {
+    return;
+  }
+
+  recordedMessages.add(message.id);
+
+  const { promptTokens, completionTokens, cost, models = [] } = annotation.value;
+
+  const record: UsageRecord = {
+    id: message.id,
+    chatId,
+    timestamp: new Date(message.createdAt ?? Date.now()).toISOString(),
+    promptTokens,
+    completionTokens,
+    cost,
+    models,
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readwrite');
+    const request = transaction.objectStore('usage').add(record);
+
+    request.onerror = (event) => {
+      // the message was recorded in an earlier session
+      if (request.error?.name === 'ConstraintError') {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getAllUsage(db: IDBDatabase): Promise<UsageRecord[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('usage', 'readonly').objectStore('usage').getAll();
+
+    request.onsuccess = () => resolve(request.result as UsageRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Sums up the usage of models. Usage is summed up per model rather than per message, so the known part of
+ * a message that used a model without pricing is still counted.
+ */
+export function summarizeUsage(usage: ModelUsage[]) {
+  return usage.reduce<UsageSummary>(
+    (summary, entry) => ({
+      promptTokens: summary.promptTokens + entry.promptTokens,
+      completionTokens: summary.completionTokens + entry.completionTokens,
+      cost: summary.cost + (entry.cost ?? 0),
+      incomplete: summary.incomplete || entry.cost === undefined,
+    }),
+    { promptTokens: 0, completionTokens: 0, cost: 0, incomplete: false },
+  );
+}
+
+export function getUsageByChat(records: UsageRecord[]) {
+  const chats = new Map<string, ModelUsage[]>();
+
+  for (const record of records) {
+    chats.set(record.chatId, [...(chats.get(record.chatId) ?? []), ...record.models]);
+  }
+
+  return new Map([...chats].map(([chatId, usage]) => [chatId, summarizeUsage(usage)]));
+}
+
+// months are `YYYY-MM` in local time
+export function getMonthKey(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Sums up the usage of each provider per month, the latest month first.
+ */
+export function getMonthlyUsage(records: UsageRecord[]) {
+  const months = new Map<string, Map<string, ModelUsage[]>>();
+
+  for (const record of records) {
+    const month = getMonthKey(new Date(record.timestamp));
+    const providers = months.get(month) ?? new Map<string, ModelUsage[]>();
+
+    for (const usage of record.models) {
+      providers.set(usage.provider, [...(providers.get(usage.provider) ?? []), usage]);
+    }
+
+    months.set(month, providers);
+  }
+
+  return [...months]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([month, providers]) => ({
+      month,
+      ...summarizeUsage([...providers.values()].flat()),
+      providers: [...providers]
+        .map(([provider, usage]) => ({ provider, ...summarizeUsage(usage) }))
+        .sort((a, b) => b.cost - a.cost),
+    }));
+}
@@ -15,9 +15,16 @@ import {
   createChatFromMessages,
   type IChatMetadata,
 } from './db';
+import { MissingBlobsError } from './blobs';
+import { getCheckpointMessageIds, setCheckpoint } from './checkpoints';
+import { getSnapshot, setSnapshot } from './snapshots';
+import { recordUsage } from './usage';
 import type { FileMap } from '~/lib/stores/files';
 import type { Snapshot } from './types';
 import { webcontainer } from '~/lib/webcontainer';
+import { path } from '~/utils/path';
+import { getProjectRules } from '~/lib/common/project-rules';
+import { Buffer } from 'node:buffer';
 import { createCommandsMessage, detectProjectCommands } from '~/utils/projectCommands';
 import type { ContextAnnotation } from '~/types/context';
 
@@ -34,9 +41,84 @@ const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
 
 export const db = persistenceEnabled ? await openDatabase() : undefined;
 
+/**
+ * Time without message updates after which the files of the last assistant message are recorded.
+ */
+const CHECKPOINT_DELAY = 1000;
+
+let checkpointTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleCheckpoint(database: IDBDatabase, id: string, messageId: string) {
+  clearTimeout(checkpointTimeout);
+
+  checkpointTimeout = setTimeout(async () => {
+    // the checkpoint has to contain the result of the actions of the message
+    await workbenchStore.waitForActions();
+
+    setCheckpoint(database, id, messageId, workbenchStore.files.get())
+      .then(() => checkpointIds.set(new Set(checkpointIds.get()).add(messageId)))
+      .catch((error) => {
+        logStore.logError('Failed to record checkpoint', error);
+      });
+  }, CHECKPOINT_DELAY);
+}
+
+let pendingSnapshot: { database: IDBDatabase; id: string; snapshot: Snapshot } | undefined;
+let isWritingSnapshot = false;
+
+/**
+ * Snapshots are taken on every message update while a response streams in, so only the latest one
+ * that is waiting for the previous write is kept.
+ */
+async function writeSnapshot(database: IDBDatabase, id: string, snapshot: Snapshot) {
+  pendingSnapshot = { database, id, snapshot };
+
+  if (isWritingSnapshot) {
+    return;
+  }
+
+  isWritingSnapshot = true;
+
+  while (pendingSnapshot) {
+    const next = pendingSnapshot;
+    pendingSnapshot = undefined;
+
+    try {
+      await setSnapshot(next.database, next.id, next.snapshot);
+    } catch (error) {
+      logStore.logError('Failed to store snapshot', error);
+    }
+  }
+
+  isWritingSnapshot = false;
+}
+
+/**
+ * Without the files of the snapshot all messages are loaded, so the project is rebuilt from their actions.
+ */
+async function loadSnapshot(database: IDBDatabase, id: string) {
+  try {
+    return await getSnapshot(database, id);
+  } catch (error) {
+    if (!(error instanceof MissingBlobsError)) {
+      throw error;
+    }
+
+    logStore.logError('Snapshot is incomplete', error);
+    toast.warning('Some files of the snapshot are missing, the project is rebuilt from the chat history');
+
+    return undefined;
+  }
+}
+
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+/**
+ * Ids of the messages of the current chat that the project can be restored to.
+ */
+export const checkpointIds = atom<Set<string>>(new Set());
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -64,8 +146,7 @@ export function useChatHistory() {
       getMessages(db, mixedId)
         .then(async (storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
-            const snapshotStr = localStorage.getItem(`snapshot:${mixedId}`);
-            const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} };
+            const snapshot: Snapshot = (await loadSnapshot(db, mixedId)) ?? { chatIndex: '', files: {} };
             const summary = snapshot.summary;
 
             const rewindId = searchParams.get('rewindTo');
@@ -95,7 +176,7 @@ export function useChatHistory() {
             if (startingIdx > 0) {
               const files = Object.entries(snapshot?.files || {})
                 .map(([key, value]) => {
-                  if (value?.type !== 'file') {
+                  if (value?.type !== 'file' || value.isBinary) {
                     return null;
                   }
 
@@ -124,7 +205,7 @@ export function useChatHistory() {
                   ${Object.entries(snapshot?.files || {})
                     .filter((x) => !x[0].endsWith('lock.json'))
                     .map(([key, value]) => {
-                      if (value?.type === 'file') {
+                      if (value?.type === 'file' && !value.isBinary) {
                         return `
                       <boltAction type="file" filePath="${key}">
 ${value.content}
@@ -179,7 +260,7 @@ ${value.content}
                   : []),
                 ...filteredMessages,
               ];
-              restoreSnapshot(mixedId);
+              restoreSnapshot(snapshot);
             }
 
             setInitialMessages(filteredMessages);
@@ -188,6 +269,10 @@ ${value.content}
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
             chatMetadata.set(storedMessages.metadata);
+
+            getCheckpointMessageIds(db, storedMessages.id)
+              .then((ids) => checkpointIds.set(new Set(ids)))
+              .catch((error) => logStore.logError('Failed to load checkpoints', error));
           } else {
             navigate('/', { replace: true });
           }
@@ -205,54 +290,55 @@ ${value.content}
 
   const takeSnapshot = useCallback(
     async (chatIdx: string, files: FileMap, _chatId?: string | undefined, chatSummary?: string) => {
-      const id = _chatId || chatId;
+      const id = _chatId || chatId.get();
 
-      if (!id) {
+      if (!db || !id) {
         return;
       }
 
-      const snapshot: Snapshot = {
+      writeSnapshot(db, id, {
         chatIndex: chatIdx,
         files,
         summary: chatSummary,
-      };
-      localStorage.setItem(`snapshot:${id}`, JSON.stringify(snapshot));
+      });
     },
-    [chatId],
+    [],
   );
 
-  const restoreSnapshot = useCallback(async (id: string) => {
-    const snapshotStr = localStorage.getItem(`snapshot:${id}`);
-    const container = await webcontainer;
-
-    // if (snapshotStr)setSnapshot(JSON.parse(snapshotStr));
-    const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} };
-
+  const restoreSnapshot = useCallback(async (snapshot: Snapshot) => {
     if (!snapshot?.files) {
       return;
     }
 
-    Object.entries(snapshot.files).forEach(async ([key, value]) => {
-      if (key.startsWith(container.workdir)) {
-        key = key.replace(container.workdir, '');
-      }
+    // files deleted after a checkpoint would be ignored by the watcher when the checkpoint is restored
+    workbenchStore.clearDeletedPaths(Object.keys(snapshot.files));
 
-      if (value?.type === 'folder') {
-        await container.fs.mkdir(key, { recursive: true });
-      }
-    });
-    Object.entries(snapshot.files).forEach(async ([key, value]) => {
-      if (value?.type === 'file') {
-        if (key.startsWith(container.workdir)) {
-          key = key.replace(container.workdir, '');
-        }
+    const container = await webcontainer;
 
-        await container.fs.writeFile(key, value.content, { encoding: value.isBinary ? undefined : 'utf8' });
-      } else {
-      }
-    });
+    for (const [filePath, dirent] of Object.entries(snapshot.files)) {
+      const relativePath = path.relative(container.workdir, filePath);
+
+      try {
+        if (dirent?.type === 'folder') {
+          await container.fs.mkdir(relativePath, { recursive: true });
+        } else if (dirent?.type === 'file') {
+          const folder = path.dirname(relativePath);
 
-    // workbenchStore.files.setKey(snapshot?.files)
+          if (folder !== '.') {
+            await container.fs.mkdir(folder, { recursive: true });
+          }
+
+          // binary files are not part of the restored artifact and have to be written byte-exact from here
+          if (dirent.isBinary) {
+            await container.fs.writeFile(relativePath, Buffer.from(dirent.content, 'base64'));
+          } else {
+            await container.fs.writeFile(relativePath, dirent.content, { encoding: 'utf8' });
+          }
+        }
+      } catch (error) {
+        logStore.logError(`Failed to restore ${relativePath}`, error);
+      }
+    }
   }, []);
 
   return {
@@ -330,6 +416,14 @@ ${value.content}
         undefined,
         chatMetadata.get(),
       );
+
+      if (lastMessage.role === 'assistant') {
+        scheduleCheckpoint(db, chatId.get() as string, lastMessage.id);
+
+        recordUsage(db, chatId.get() as string, lastMessage).catch((error) => {
+          logStore.logError('Failed to record usage', error);
+        });
+      }
     },
     duplicateCurrentChat: async (listItemId: string) => {
       if (!db || (!mixedId && !listItemId)) {
@@ -368,9 +462,17 @@ ${value.content}
       }
 
       const chat = await getMessages(db, id);
+
+      // the open chat may have changes that are not in its snapshot yet, e.g. rules edited in the editor
+      const files =
+        chat.id === chatId.get()
+          ? workbenchStore.files.get()
+          : ((await getSnapshot(db, chat.urlId ?? chat.id)) ?? (await getSnapshot(db, chat.id)))?.files;
+
       const chatData = {
         messages: chat.messages,
         description: chat.description,
+        rules: files && getProjectRules(files),
         exportDate: new Date().toISOString(),
       };
 
@@ -0,0 +1,68 @@
+import type { BoltAction } from '~/types/actions';
+
+export const DEFAULT_COMMAND_ALLOWLIST = ['npm install', 'npm run dev', 'pnpm install', 'pnpm run dev'];
+
+/**
+ * Decides whether an action has to be approved by the user before it runs. Shell and start commands
+ * are exempt when they are allowlisted, deletions always need an approval while file writes, edits and
+ * renames never do.
+ */
+export function requiresApproval(action: BoltAction, allowlist: string[]) {
+  switch (action.type) {
+    case 'shell':
+    case 'start': {
+      return !isCommandAllowed(action.content, allowlist);
+    }
+    case 'delete': {
+      return true;
+    }
+    case 'supabase': {
+      return action.operation === 'migration';
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+/**
+ * Shell syntax that could run or redirect to something else than the allowlisted command. Commands using
+ * it always need an approval, `&&` chains are the only way to combine commands.
+ */
+const UNSAFE_SHELL_SYNTAX = /[;|&<>`\n\r]|\$\(/;
+
+/**
+ * A command is allowed if every part of a `&&` chain matches an allowlist entry. Entries match the
+ * whole command unless they end with `*`, in which case they match as a prefix of whole words.
+ */
+export function isCommandAllowed(command: string, allowlist: string[]) {
+  const parts = command.split('&&');
+
+  if (parts.some((part) => UNSAFE_SHELL_SYNTAX.test(part))) {
+    return false;
+  }
+
+  const normalizedParts = parts.map((part) => normalizeCommand(part)).filter(Boolean);
+
+  if (normalizedParts.length === 0) {
+    return false;
+  }
+
+  return normalizedParts.every((part) =>
+    allowlist.some((entry) => {
+      const normalizedEntry = normalizeCommand(entry);
+
+      if (normalizedEntry.endsWith('*')) {
+        const prefix = normalizedEntry.slice(0, -1).trimEnd();
+
+        return part === prefix || part.startsWith(prefix + ' ');
+      }
+
+      return part === normalizedEntry;
+    }),
+  );
+}
+
+function normalizeCommand(command: string) {
+  return command.trim().replace(/\s+/g, ' ');
+}
@@ -6,10 +6,15 @@ import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
 import type { BoltShell } from '~/utils/shell';
+import { applyEditHunks, parseEditHunks } from '~/utils/patch';
+import type { File } from '~/lib/stores/files';
 
 const logger = createScopedLogger('ActionRunner');
 
-export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
+/**
+ * `awaiting` is used for actions that wait for the user to approve them before they run.
+ */
+export type ActionStatus = 'pending' | 'awaiting' | 'running' | 'complete' | 'aborted' | 'failed';
 
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
@@ -26,7 +31,7 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'content'>>;
 
 export type ActionStateUpdate =
   | BaseActionUpdate
@@ -34,6 +39,15 @@ export type ActionStateUpdate =
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
+/**
+ * File operations that have to go through the workbench so its bookkeeping stays in sync with the WebContainer.
+ */
+export interface FileOperations {
+  getFile: (filePath: string) => File | undefined;
+  deleteFile: (filePath: string, isFolder: boolean) => Promise<unknown>;
+  renameFile: (oldPath: string, newPath: string) => Promise<unknown>;
+}
+
 class ActionCommandError extends Error {
   readonly _output: string;
   readonly _header: string;
@@ -67,6 +81,9 @@ export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
   #shellTerminal: () => BoltShell;
+  #fileOperations?: FileOperations;
+  #requiresApproval?: (action: BoltAction) => boolean;
+  #pendingApprovals = new Map<string, (approved: boolean) => void>();
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
@@ -78,11 +95,15 @@ export class ActionRunner {
     getShellTerminal: () => BoltShell,
     onAlert?: (alert: ActionAlert) => void,
     onSupabaseAlert?: (alert: SupabaseAlert) => void,
+    fileOperations?: FileOperations,
+    requiresApproval?: (action: BoltAction) => boolean,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
     this.onSupabaseAlert = onSupabaseAlert;
+    this.#fileOperations = fileOperations;
+    this.#requiresApproval = requiresApproval;
   }
 
   addAction(data: ActionCallbackData) {
@@ -104,6 +125,7 @@ export class ActionRunner {
       executed: false,
       abort: () => {
         abortController.abort();
+        this.skipAction(actionId);
         this.#updateAction(actionId, { status: 'aborted' });
       },
       abortSignal: abortController.signal,
@@ -132,6 +154,15 @@ export class ActionRunner {
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
+    if (!isStreaming && this.#requiresApproval?.(data.action)) {
+      const approved = await this.#waitForApproval(actionId);
+
+      if (!approved) {
+        this.#updateAction(actionId, { status: 'aborted' });
+        return;
+      }
+    }
+
     this.#currentExecutionPromise = this.#currentExecutionPromise
       .then(() => {
         return this.#executeAction(actionId, isStreaming);
@@ -145,6 +176,43 @@ export class ActionRunner {
     return;
   }
 
+  /**
+   * Runs an action that is awaiting approval, optionally with content edited by the user.
+   */
+  approveAction(actionId: string, content?: string) {
+    const resolve = this.#pendingApprovals.get(actionId);
+
+    if (!resolve) {
+      return;
+    }
+
+    if (content !== undefined) {
+      this.#updateAction(actionId, { content });
+    }
+
+    this.#pendingApprovals.delete(actionId);
+    resolve(true);
+  }
+
+  skipAction(actionId: string) {
+    const resolve = this.#pendingApprovals.get(actionId);
+
+    if (!resolve) {
+      return;
+    }
+
+    this.#pendingApprovals.delete(actionId);
+    resolve(false);
+  }
+
+  #waitForApproval(actionId: string) {
+    this.#updateAction(actionId, { status: 'awaiting' });
+
+    return new Promise<boolean>((resolve) => {
+      this.#pendingApprovals.set(actionId, resolve);
+    });
+  }
+
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
 
@@ -160,6 +228,35 @@ export class ActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'edit':
+        case 'delete':
+        case 'rename':
+        case 'move': {
+          try {
+            if (action.type === 'edit') {
+              await this.#runEditAction(action);
+            } else if (action.type === 'delete') {
+              await this.#runDeleteAction(action);
+            } else {
+              await this.#runRenameAction(action);
+            }
+          } catch (error) {
+            logger.error(`[${action.type}]:Action failed\n\n`, error);
+
+            // keep the reason (e.g. the mismatching hunk) around so it can be reported back to the model
+            this.#updateAction(actionId, {
+              status: 'failed',
+              error: error instanceof Error ? error.message : `${action.type} action failed`,
+            });
+
+            return;
+          }
+          break;
+        }
+        case 'read': {
+          // resolved on the server while the response is generated
+          break;
+        }
         case 'supabase': {
           try {
             await this.handleSupabaseAction(action as SupabaseAction);
@@ -326,6 +423,110 @@ export class ActionRunner {
     }
   }
 
+  async #runEditAction(action: ActionState) {
+    if (action.type !== 'edit') {
+      unreachable('Expected edit action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+    const fullPath = nodePath.join(webcontainer.workdir, relativePath);
+
+    if (this.#fileOperations?.getFile(fullPath)?.isBinary) {
+      throw new Error(`Cannot edit ${relativePath}: binary files can only be replaced`);
+    }
+
+    /*
+     * read the content from the WebContainer instead of the files store because watcher events are
+     * buffered and an earlier action of the same artifact might not be reflected there yet
+     */
+    let originalContent: string;
+
+    try {
+      originalContent = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      throw new Error(`Cannot edit ${relativePath}: file does not exist`);
+    }
+
+    const hunks = parseEditHunks(action.content);
+    const content = applyEditHunks(originalContent, hunks);
+
+    await webcontainer.fs.writeFile(relativePath, content);
+    logger.debug(`File edited ${relativePath} (${hunks.length} hunks)`);
+  }
+
+  async #runDeleteAction(action: ActionState) {
+    if (action.type !== 'delete') {
+      unreachable('Expected delete action');
+    }
+
+    if (!this.#fileOperations) {
+      unreachable('File operations not available');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+    const entry = await this.#findEntry(relativePath);
+
+    if (!entry) {
+      // already gone, e.g. when the actions of a restored chat are replayed
+      logger.debug(`Nothing to delete at ${relativePath}`);
+      return;
+    }
+
+    await this.#fileOperations.deleteFile(nodePath.join(webcontainer.workdir, relativePath), entry.isDirectory());
+    logger.debug(`Deleted ${relativePath}`);
+  }
+
+  async #runRenameAction(action: ActionState) {
+    if (action.type !== 'rename' && action.type !== 'move') {
+      unreachable('Expected rename or move action');
+    }
+
+    if (!this.#fileOperations) {
+      unreachable('File operations not available');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+    const newRelativePath = nodePath.relative(webcontainer.workdir, action.newFilePath);
+
+    const [source, target] = await Promise.all([this.#findEntry(relativePath), this.#findEntry(newRelativePath)]);
+
+    if (!source) {
+      if (target) {
+        // already renamed, e.g. when the actions of a restored chat are replayed
+        return;
+      }
+
+      throw new Error(`Cannot ${action.type} ${relativePath}: file does not exist`);
+    }
+
+    if (target) {
+      throw new Error(`Cannot ${action.type} ${relativePath}: ${newRelativePath} already exists`);
+    }
+
+    await this.#fileOperations.renameFile(
+      nodePath.join(webcontainer.workdir, relativePath),
+      nodePath.join(webcontainer.workdir, newRelativePath),
+    );
+    logger.debug(`Renamed ${relativePath} to ${newRelativePath}`);
+  }
+
+  /**
+   * Looks up a file or folder in the WebContainer, the files store might not have caught up with earlier actions.
+   */
+  async #findEntry(relativePath: string) {
+    const webcontainer = await this.#webcontainer;
+
+    try {
+      const entries = await webcontainer.fs.readdir(nodePath.dirname(relativePath), { withFileTypes: true });
+      return entries.find((entry) => entry.name === nodePath.basename(relativePath));
+    } catch {
+      return undefined;
+    }
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
@@ -1,5 +1,10 @@
 import { describe, expect, it, vi } from 'vitest';
-import { StreamingMessageParser, type ActionCallback, type ArtifactCallback } from './message-parser';
+import {
+  CONTINUATION_MARKER,
+  StreamingMessageParser,
+  type ActionCallback,
+  type ArtifactCallback,
+} from './message-parser';
 
 interface ExpectedResult {
   output: string;
@@ -152,10 +157,62 @@ describe('StreamingMessageParser', () => {
           callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 2, onActionClose: 2 },
         },
       ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="edit" filePath="index.js">\n<<<<<<< SEARCH\nconst a = 1;\n=======\nconst a = 2;\n>>>>>>> REPLACE\n</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="rename" newFilePath="src/App.tsx" filePath="src/App.jsx" /><boltAction type="delete" filePath="src/legacy.js"></boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 2, onActionClose: 2 },
+        },
+      ],
     ])('should correctly parse chunks and strip out bolt artifacts (%#)', (input, expected) => {
       runTest(input, expected);
     });
   });
+
+  describe('continuations', () => {
+    const open = 'Text <boltArtifact title="App" id="app"><boltAction type="file" filePath="src/app.ts">\n';
+
+    function parseFile(input: string) {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+
+      const output = parser.parse('message_1', input);
+
+      return { output, content: onActionClose.mock.calls[0]?.[0].action.content };
+    }
+
+    it('continues the action where it was cut off', () => {
+      const { output, content } = parseFile(
+        `${open}const a = 1;\nconst b = ${CONTINUATION_MARKER}2;\n</boltAction></boltArtifact> Done`,
+      );
+
+      expect(output).toBe('Text  Done');
+      expect(content).toBe('const a = 1;\nconst b = 2;\n');
+    });
+
+    it('drops the lines a continuation repeats', () => {
+      const { content } = parseFile(
+        `${open}const first = 1;\nconst sec${CONTINUATION_MARKER}const first = 1;\nconst second = 2;\n</boltAction></boltArtifact>`,
+      );
+
+      expect(content).toBe('const first = 1;\nconst second = 2;\n');
+    });
+
+    it('replaces the content when the continuation starts the action over', () => {
+      const { content } = parseFile(
+        `${open}const a = 1;\nconst b${CONTINUATION_MARKER}<boltArtifact title="App" id="app"><boltAction type="file" filePath="src/app.ts">\nconst a = 1;\nconst b = 2;\n</boltAction></boltArtifact>`,
+      );
+
+      expect(content).toBe('const a = 1;\nconst b = 2;\n');
+    });
+  });
 });
 
 function runTest(input: string | string[], outputOrExpectedResult: string | ExpectedResult) {
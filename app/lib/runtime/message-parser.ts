@@ -1,4 +1,17 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction, SupabaseAction } from '~/types/actions';
+import type {
+  ActionType,
+  BoltAction,
+  BoltActionData,
+  DeleteAction,
+  EditAction,
+  FileAction,
+  MoveAction,
+  ReadAction,
+  ReadOperation,
+  RenameAction,
+  ShellAction,
+  SupabaseAction,
+} from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
@@ -8,6 +21,18 @@ const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
 const ARTIFACT_ACTION_TAG_OPEN = '<boltAction';
 const ARTIFACT_ACTION_TAG_CLOSE = '</boltAction>';
 
+/**
+ * Written where a response that was cut off by the output limit of the model continues.
+ */
+export const CONTINUATION_MARKER = '<boltContinuation />';
+
+// continuations often start over with the tags of the action they were cut off in
+const RESTARTED_ACTION_REGEX = /^\s*(?:<boltArtifact[^>]*>\s*)?<boltAction([^>]*)>/;
+
+// the number of lines at the end of a segment that are compared with the start of its continuation
+const MAX_OVERLAP_LINES = 50;
+const MIN_OVERLAP_LENGTH = 10;
+
 const logger = createScopedLogger('MessageParser');
 
 export interface ArtifactCallbackData extends BoltArtifactData {
@@ -36,7 +61,7 @@ interface ElementFactoryProps {
   messageId: string;
 }
 
-type ElementFactory = (props: ElementFactoryProps) => string;
+export type ElementFactory = (props: ElementFactoryProps) => string;
 
 export interface StreamingMessageParserOptions {
   callbacks?: ParserCallbacks;
@@ -68,6 +93,54 @@ function cleanoutMarkdownSyntax(content: string) {
 function cleanEscapedTags(content: string) {
   return content.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
 }
+
+/**
+ * Drops the lines a continuation repeats from the end of the content before it. A repeated line that was cut
+ * off in the middle is completed by the continuation.
+ */
+function removeOverlap(before: string, after: string) {
+  let start = before.length;
+
+  for (let lines = 0; lines < MAX_OVERLAP_LINES && start > 0; lines++) {
+    start = before.lastIndexOf('\n', start - 2) + 1;
+
+    const tail = before.slice(start);
+    const isPartialLine = lines === 0 && !tail.endsWith('\n');
+
+    if ((isPartialLine || tail.trim().length >= MIN_OVERLAP_LENGTH) && after.startsWith(tail)) {
+      return after.slice(tail.length);
+    }
+  }
+
+  return after;
+}
+
+/**
+ * Joins the content of an action that spans the continuations of a response. A continuation that starts the
+ * action over replaces the content before it, one that repeats its last lines continues after them.
+ */
+function stitchContinuations(content: string, action: BoltActionData) {
+  const [first, ...continuations] = content.split(CONTINUATION_MARKER);
+  let stitched = first;
+
+  for (const continuation of continuations) {
+    // the tags of a restarted action are still streaming
+    if (/^\s*<[^>]*$/.test(continuation)) {
+      break;
+    }
+
+    const restart = continuation.match(RESTARTED_ACTION_REGEX);
+    const filePath = restart?.[1].match(/\bfilePath="([^"]*)"/)?.[1];
+
+    if (restart && filePath === ('filePath' in action ? action.filePath : undefined)) {
+      stitched = continuation.slice(restart[0].length);
+    } else {
+      stitched += removeOverlap(stitched, continuation);
+    }
+  }
+
+  return stitched;
+}
 export class StreamingMessageParser {
   #messages = new Map<string, MessageState>();
 
@@ -106,7 +179,7 @@ export class StreamingMessageParser {
           const currentAction = state.currentAction;
 
           if (closeIndex !== -1) {
-            currentAction.content += input.slice(i, closeIndex);
+            currentAction.content += stitchContinuations(input.slice(i, closeIndex), currentAction);
 
             let content = currentAction.content.trim();
 
@@ -118,6 +191,9 @@ export class StreamingMessageParser {
               }
 
               content += '\n';
+            } else if ('type' in currentAction && currentAction.type === 'edit') {
+              // models sometimes wrap the hunks in a code fence or escape the markers
+              content = cleanEscapedTags(cleanoutMarkdownSyntax(content));
             }
 
             currentAction.content = content;
@@ -142,7 +218,7 @@ export class StreamingMessageParser {
             i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
           } else {
             if ('type' in currentAction && currentAction.type === 'file') {
-              let content = input.slice(i);
+              let content = stitchContinuations(input.slice(i), currentAction);
 
               if (!currentAction.filePath.endsWith('.md')) {
                 content = cleanoutMarkdownSyntax(content);
@@ -182,6 +258,19 @@ export class StreamingMessageParser {
                 action: state.currentAction as BoltAction,
               });
 
+              // delete, rename, move and read actions have no content and can be written as self-closing tags
+              if (input[actionEndIndex - 1] === '/') {
+                this._options.callbacks?.onActionClose?.({
+                  artifactId: currentArtifact.id,
+                  messageId,
+                  actionId: String(state.actionId - 1),
+                  action: state.currentAction as BoltAction,
+                });
+
+                state.insideAction = false;
+                state.currentAction = { content: '' };
+              }
+
               i = actionEndIndex + 1;
             } else {
               break;
@@ -197,6 +286,8 @@ export class StreamingMessageParser {
             break;
           }
         }
+      } else if (input.startsWith(CONTINUATION_MARKER, i)) {
+        i += CONTINUATION_MARKER.length;
       } else if (input[i] === '<' && input[i + 1] !== '/') {
         let j = i;
         let potentialTag = '';
@@ -321,20 +412,68 @@ export class StreamingMessageParser {
       }
 
       (actionAttributes as FileAction).filePath = filePath;
+    } else if (actionType === 'edit') {
+      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+
+      if (!filePath) {
+        logger.warn('Edit action requires a filePath');
+      }
+
+      (actionAttributes as EditAction).filePath = filePath;
+    } else if (actionType === 'delete') {
+      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+
+      if (!filePath) {
+        logger.warn('Delete action requires a filePath');
+      }
+
+      (actionAttributes as DeleteAction).filePath = filePath;
+    } else if (actionType === 'rename' || actionType === 'move') {
+      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+      const newFilePath = this.#extractAttribute(actionTag, 'newFilePath') as string;
+
+      if (!filePath || !newFilePath) {
+        logger.warn(`${actionType} action requires a filePath and a newFilePath`);
+      }
+
+      (actionAttributes as RenameAction | MoveAction).filePath = filePath;
+      (actionAttributes as RenameAction | MoveAction).newFilePath = newFilePath;
+    } else if (actionType === 'read') {
+      const operation = (this.#extractAttribute(actionTag, 'operation') ?? 'file') as ReadOperation;
+      const path = this.#extractAttribute(actionTag, 'path') ?? this.#extractAttribute(actionTag, 'filePath');
+
+      if (!['file', 'list', 'grep'].includes(operation)) {
+        logger.warn(`Invalid read operation '${operation}'`);
+      }
+
+      (actionAttributes as ReadAction).operation = operation;
+      (actionAttributes as ReadAction).path = path ?? '';
+
+      if (operation === 'grep') {
+        (actionAttributes as ReadAction).pattern = this.#extractAttribute(actionTag, 'pattern') ?? '';
+      }
     } else if (!['shell', 'start'].includes(actionType)) {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    return actionAttributes as
+      | FileAction
+      | EditAction
+      | DeleteAction
+      | RenameAction
+      | MoveAction
+      | ReadAction
+      | ShellAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
+    // the word boundary keeps `filePath` from matching inside `newFilePath`
+    const match = tag.match(new RegExp(`\\b${attributeName}="([^"]*)"`, 'i'));
     return match ? match[1] : undefined;
   }
 }
 
-const createArtifactElement: ElementFactory = (props) => {
+export const createArtifactElement: ElementFactory = (props) => {
   const elementProps = [
     'class="__boltArtifact__"',
     ...Object.entries(props).map(([key, value]) => {
@@ -0,0 +1,72 @@
+import type { ToolInvocation } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { type ActionCallback, type ArtifactCallback } from './message-parser';
+import { ToolInvocationParser } from './tool-invocation-parser';
+
+describe('ToolInvocationParser', () => {
+  it('should map streamed tool calls onto artifact and action callbacks', () => {
+    const callbacks = {
+      onArtifactOpen: vi.fn<ArtifactCallback>(),
+      onArtifactClose: vi.fn<ArtifactCallback>(),
+      onActionOpen: vi.fn<ActionCallback>(),
+      onActionStream: vi.fn<ActionCallback>(),
+      onActionClose: vi.fn<ActionCallback>(),
+    };
+
+    const parser = new ToolInvocationParser({ artifactElement: () => '<artifact/>', callbacks });
+
+    const steps: ToolInvocation[][] = [
+      [{ state: 'partial-call', toolCallId: 'call_1', toolName: 'write_file', args: { filePath: 'src/ap' } }],
+      [
+        {
+          state: 'partial-call',
+          toolCallId: 'call_1',
+          toolName: 'write_file',
+          args: { filePath: 'src/app.ts', content: 'con' },
+        },
+      ],
+      [
+        {
+          state: 'result',
+          toolCallId: 'call_1',
+          toolName: 'write_file',
+          args: { filePath: 'src/app.ts', content: 'const a = 1;\n' },
+          result: 'Wrote src/app.ts',
+        },
+        { state: 'partial-call', toolCallId: 'call_2', toolName: 'read_file', args: { filePath: 'index.html' } },
+        {
+          state: 'call',
+          toolCallId: 'call_3',
+          toolName: 'run_command',
+          args: { command: 'npm run dev', startsServer: true },
+        },
+      ],
+    ];
+
+    let output = '';
+
+    for (const [index, toolInvocations] of steps.entries()) {
+      output += parser.parse('message_1', toolInvocations, index === steps.length - 1);
+    }
+
+    expect(output).toBe('<artifact/>');
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledOnce();
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledWith({
+      messageId: 'message_1',
+      id: 'project-message_1',
+      title: 'Project Changes',
+    });
+    expect(callbacks.onArtifactClose).toHaveBeenCalledOnce();
+    expect(callbacks.onActionOpen).toHaveBeenCalledTimes(2);
+    expect(callbacks.onActionOpen.mock.calls[0][0].action).toEqual({
+      type: 'file',
+      filePath: 'src/app.ts',
+      content: 'con',
+    });
+    expect(callbacks.onActionStream).toHaveBeenCalledOnce();
+    expect(callbacks.onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+      ['call_1', { type: 'file', filePath: 'src/app.ts', content: 'const a = 1;\n' }],
+      ['call_3', { type: 'start', content: 'npm run dev' }],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import type { ToolInvocation } from 'ai';
+import { getToolAction, getToolArtifact } from '~/lib/common/tools';
+import { createScopedLogger } from '~/utils/logger';
+import {
+  createArtifactElement,
+  type ActionCallbackData,
+  type ElementFactory,
+  type ParserCallbacks,
+} from './message-parser';
+
+const logger = createScopedLogger('ToolInvocationParser');
+
+export interface ToolInvocationParserOptions {
+  callbacks?: ParserCallbacks;
+  artifactElement?: ElementFactory;
+}
+
+interface MessageState {
+  artifactClosed: boolean;
+  openedActions: Set<string>;
+  closedActions: Set<string>;
+}
+
+/**
+ * Emits the same callbacks as the `StreamingMessageParser` for the native tool calls of a message, so
+ * they are run like the actions of an artifact.
+ */
+export class ToolInvocationParser {
+  #messages = new Map<string, MessageState>();
+
+  constructor(private _options: ToolInvocationParserOptions = {}) {}
+
+  /**
+   * Returns the artifact element once the first tool call with an action is found. The artifact is closed
+   * when the message is complete.
+   */
+  parse(messageId: string, toolInvocations: ToolInvocation[] = [], isComplete = false) {
+    let state = this.#messages.get(messageId);
+    let output = '';
+
+    const artifact = getToolArtifact(messageId);
+
+    for (const invocation of toolInvocations) {
+      const action = getToolAction(invocation.toolName, invocation.args);
+
+      if (!action) {
+        continue;
+      }
+
+      if (!state) {
+        state = { artifactClosed: false, openedActions: new Set(), closedActions: new Set() };
+        this.#messages.set(messageId, state);
+
+        this._options.callbacks?.onArtifactOpen?.({ messageId, ...artifact });
+
+        output += (this._options.artifactElement ?? createArtifactElement)({ messageId });
+      }
+
+      const { toolCallId: actionId } = invocation;
+
+      if (state.closedActions.has(actionId)) {
+        continue;
+      }
+
+      const data = { artifactId: artifact.id, messageId, actionId, action };
+
+      if (invocation.state === 'partial-call') {
+        /*
+         * only the content of files is streamed, like for `<boltAction>` tags, and the path is complete
+         * once the content arguments started
+         */
+        if (action.type !== 'file' || invocation.args?.content === undefined) {
+          continue;
+        }
+
+        this.#openAction(state, data);
+        this._options.callbacks?.onActionStream?.(data);
+
+        continue;
+      }
+
+      this.#openAction(state, data);
+      state.closedActions.add(actionId);
+      this._options.callbacks?.onActionClose?.(data);
+    }
+
+    if (state && isComplete && !state.artifactClosed) {
+      logger.trace('Closing tool call artifact', messageId);
+
+      state.artifactClosed = true;
+      this._options.callbacks?.onArtifactClose?.({ messageId, ...artifact });
+    }
+
+    return output;
+  }
+
+  reset() {
+    this.#messages.clear();
+  }
+
+  #openAction(state: MessageState, data: ActionCallbackData) {
+    if (!state.openedActions.has(data.actionId)) {
+      state.openedActions.add(data.actionId);
+      this._options.callbacks?.onActionOpen?.(data);
+    }
+  }
+}
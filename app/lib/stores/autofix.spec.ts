@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  AUTO_FIX_MAX_ATTEMPTS,
+  autoFixStore,
+  resetAutoFix,
+  resolveAutoFix,
+  startAutoFixAttempt,
+  stopAutoFix,
+} from './autofix';
+import type { ActionAlert } from '~/types/actions';
+
+const alert = (content: string): ActionAlert => ({
+  type: 'error',
+  title: 'Build failed',
+  description: content,
+  content,
+  source: 'terminal',
+});
+
+beforeEach(() => {
+  resetAutoFix();
+});
+
+describe('startAutoFixAttempt', () => {
+  it('should fail the previous attempt when the error comes back', () => {
+    startAutoFixAttempt(alert('build error'));
+
+    expect(startAutoFixAttempt(alert('build error'))?.attempt).toBe(2);
+    expect(autoFixStore.get().steps.map((step) => step.status)).toEqual(['failed', 'fixing']);
+  });
+
+  it('should stop once the retry budget is used up', () => {
+    for (let attempt = 1; attempt <= AUTO_FIX_MAX_ATTEMPTS; attempt++) {
+      expect(startAutoFixAttempt(alert('build error'))?.attempt).toBe(attempt);
+    }
+
+    expect(startAutoFixAttempt(alert('build error'))).toBeUndefined();
+    expect(autoFixStore.get().status).toBe('exhausted');
+    expect(autoFixStore.get().steps).toHaveLength(AUTO_FIX_MAX_ATTEMPTS);
+  });
+
+  it('should give a new error the full budget after the previous one was resolved', () => {
+    for (let attempt = 1; attempt < AUTO_FIX_MAX_ATTEMPTS; attempt++) {
+      startAutoFixAttempt(alert('build error'));
+    }
+
+    resolveAutoFix();
+
+    expect(startAutoFixAttempt(alert('runtime error'))?.attempt).toBe(1);
+    expect(autoFixStore.get()).toEqual({
+      status: 'fixing',
+      steps: [{ attempt: 1, alert: alert('runtime error'), status: 'fixing' }],
+    });
+  });
+});
+
+describe('resolveAutoFix', () => {
+  it('should mark the running attempt as fixed', () => {
+    startAutoFixAttempt(alert('build error'));
+    startAutoFixAttempt(alert('build error'));
+    resolveAutoFix();
+
+    expect(autoFixStore.get().status).toBe('resolved');
+    expect(autoFixStore.get().steps.map((step) => step.status)).toEqual(['failed', 'fixed']);
+  });
+});
+
+describe('stopAutoFix', () => {
+  it('should only stop a running fix', () => {
+    stopAutoFix();
+
+    expect(autoFixStore.get().status).toBe('idle');
+
+    startAutoFixAttempt(alert('build error'));
+    stopAutoFix();
+
+    expect(autoFixStore.get()).toMatchObject({ status: 'stopped', steps: [{ status: 'failed' }] });
+  });
+});
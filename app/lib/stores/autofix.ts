@@ -0,0 +1,81 @@
+import { map } from 'nanostores';
+import type { ActionAlert } from '~/types/actions';
+
+/**
+ * Number of fixes that are requested in a row for an error before it is handed back to the user.
+ */
+export const AUTO_FIX_MAX_ATTEMPTS = 3;
+
+export type AutoFixStepStatus = 'fixing' | 'fixed' | 'failed';
+
+export interface AutoFixStep {
+  attempt: number;
+  alert: ActionAlert;
+  status: AutoFixStepStatus;
+}
+
+/**
+ * `exhausted` means the retry budget is used up, `stopped` that the user aborted a fix.
+ */
+export type AutoFixStatus = 'idle' | 'fixing' | 'resolved' | 'exhausted' | 'stopped';
+
+export interface AutoFixState {
+  status: AutoFixStatus;
+  steps: AutoFixStep[];
+}
+
+export const autoFixStore = map<AutoFixState>({ status: 'idle', steps: [] });
+
+export function getFixMessage(alert: ActionAlert) {
+  const isPreview = alert.source === 'preview';
+
+  return `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${alert.content}\n\`\`\`\n`;
+}
+
+/**
+ * Records a new attempt for the given alert. Returns `undefined` once the retry budget is exhausted.
+ */
+export function startAutoFixAttempt(alert: ActionAlert) {
+  const { status, steps: previousSteps } = autoFixStore.get();
+
+  // the budget is per error, a resolved one doesn't use up the attempts of the next
+  const steps = status === 'resolved' ? [] : failRunningStep(previousSteps);
+
+  if (steps.length >= AUTO_FIX_MAX_ATTEMPTS) {
+    autoFixStore.set({ status: 'exhausted', steps });
+    return undefined;
+  }
+
+  const step: AutoFixStep = { attempt: steps.length + 1, alert, status: 'fixing' };
+
+  autoFixStore.set({ status: 'fixing', steps: [...steps, step] });
+
+  return step;
+}
+
+export function resolveAutoFix() {
+  const { steps } = autoFixStore.get();
+
+  autoFixStore.set({
+    status: 'resolved',
+    steps: steps.map((step) => (step.status === 'fixing' ? { ...step, status: 'fixed' } : step)),
+  });
+}
+
+export function stopAutoFix() {
+  const { status, steps } = autoFixStore.get();
+
+  if (status !== 'fixing') {
+    return;
+  }
+
+  autoFixStore.set({ status: 'stopped', steps: failRunningStep(steps) });
+}
+
+export function resetAutoFix() {
+  autoFixStore.set({ status: 'idle', steps: [] });
+}
+
+function failRunningStep(steps: AutoFixStep[]) {
+  return steps.map((step) => (step.status === 'fixing' ? { ...step, status: 'failed' as const } : step));
+}
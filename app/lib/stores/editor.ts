@@ -29,7 +29,11 @@ export class EditorStore {
     }
   }
 
-  setDocuments(files: FileMap) {
+  /**
+   * Syncs the documents with the files. Documents listed in `unsavedFiles` keep their current value so
+   * hand edits survive writes coming from the file watcher.
+   */
+  setDocuments(files: FileMap, unsavedFiles?: Set<string>) {
     const previousDocuments = this.documents.value;
 
     this.documents.set(
@@ -42,10 +46,12 @@ export class EditorStore {
 
             const previousDocument = previousDocuments?.[filePath];
 
+            const keepValue = previousDocument !== undefined && unsavedFiles?.has(filePath);
+
             return [
               filePath,
               {
-                value: dirent.content,
+                value: keepValue ? previousDocument.value : dirent.content,
                 filePath,
                 scroll: previousDocument?.scroll,
               },
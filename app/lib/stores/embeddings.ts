@@ -0,0 +1,108 @@
+import { EmbeddingIndex } from '~/lib/embeddings/embedding-index';
+import { workbenchStore } from '~/lib/stores/workbench';
+import {
+  contextSelectionStore,
+  embeddingModelStore,
+  enableContextOptimizationStore,
+  parseModelKey,
+} from '~/lib/stores/settings';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Embeddings');
+
+// files ranked for the server to pick the context buffer from
+const RANKED_FILES = 20;
+
+// watch events come in bursts, e.g. while a command installs packages
+const FLUSH_DELAY = 2000;
+
+async function embed(values: string[]) {
+  const { provider, model } = parseModelKey(embeddingModelStore.get());
+
+  const response = await fetch('/api/embeddings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ provider, model, values }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to embed: ${(await response.text()) || response.statusText}`);
+  }
+
+  const { embeddings } = (await response.json()) as { embeddings: number[][] };
+
+  return embeddings;
+}
+
+export const embeddingIndex = new EmbeddingIndex(embed);
+
+function isIndexing() {
+  return enableContextOptimizationStore.get() && !!embeddingModelStore.get() && contextSelectionStore.get() !== 'llm';
+}
+
+let flushTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleFlush() {
+  clearTimeout(flushTimeout);
+  flushTimeout = setTimeout(() => {
+    embeddingIndex.flush().catch((error) => logger.warn('Failed to index the project files', error));
+  }, FLUSH_DELAY);
+}
+
+/**
+ * Ranks the project files by their similarity to a request, or returns `undefined` when the context buffer is
+ * picked without embeddings or the files can't be embedded.
+ */
+export async function rankContextFiles(query: string): Promise<string[] | undefined> {
+  if (!isIndexing()) {
+    return undefined;
+  }
+
+  try {
+    const ranked = await embeddingIndex.search(query, RANKED_FILES);
+    return ranked.map((entry) => entry.path);
+  } catch (error) {
+    logger.warn('Failed to rank the project files, the model picks the context instead', error);
+    return undefined;
+  }
+}
+
+if (typeof window !== 'undefined') {
+  let indexedModel: string | undefined;
+
+  // the index is rebuilt when it is turned on or the embedding model changes, embeddings of models don't mix
+  const onSettingsChange = () => {
+    const model = isIndexing() ? embeddingModelStore.get() : undefined;
+
+    if (model === indexedModel) {
+      return;
+    }
+
+    indexedModel = model;
+    embeddingIndex.clear();
+
+    if (model) {
+      embeddingIndex.updateAll(workbenchStore.files.get());
+      scheduleFlush();
+    }
+  };
+
+  enableContextOptimizationStore.listen(onSettingsChange);
+  contextSelectionStore.listen(onSettingsChange);
+  embeddingModelStore.listen(onSettingsChange);
+  onSettingsChange();
+
+  workbenchStore.files.listen((files, _oldFiles, changedPath) => {
+    if (!indexedModel) {
+      return;
+    }
+
+    if (changedPath) {
+      embeddingIndex.update(changedPath, files[changedPath]);
+    } else {
+      embeddingIndex.updateAll(files);
+    }
+
+    scheduleFlush();
+  });
+}
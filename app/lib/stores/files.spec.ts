@@ -0,0 +1,111 @@
+import type { PathWatcherEvent, WebContainer } from '@webcontainer/api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FilesStore } from './files';
+
+let storage: Map<string, string>;
+let emitEvents: (events: PathWatcherEvent[]) => void;
+
+function createFilesStore() {
+  const webcontainer = {
+    workdir: '/home/project',
+    fs: { rm: vi.fn(), rename: vi.fn(), mkdir: vi.fn() },
+    internal: {
+      watchPaths: (_options: unknown, callback: typeof emitEvents) => {
+        emitEvents = callback;
+      },
+    },
+  };
+
+  return new FilesStore(Promise.resolve(webcontainer as unknown as WebContainer));
+}
+
+async function addFiles(...paths: string[]) {
+  emitEvents(
+    paths.map((path) => ({ type: 'add_file', path, buffer: new TextEncoder().encode(path) }) as PathWatcherEvent),
+  );
+
+  // events are buffered by the store
+  await vi.runAllTimersAsync();
+}
+
+function getDeletedPaths() {
+  return JSON.parse(storage.get('bolt-deleted-paths') ?? '[]') as string[];
+}
+
+beforeEach(() => {
+  storage = new Map();
+
+  vi.useFakeTimers();
+  vi.stubGlobal('self', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('FilesStore.clearDeletedPaths', () => {
+  it('should let the watcher pick up deleted files again', async () => {
+    const store = createFilesStore();
+
+    await vi.runAllTimersAsync();
+    await addFiles('/home/project/index.ts');
+    await store.deleteFile('/home/project/index.ts');
+    await addFiles('/home/project/index.ts');
+
+    expect(store.getFile('/home/project/index.ts')).toBeUndefined();
+
+    store.clearDeletedPaths(['/home/project/index.ts']);
+    await addFiles('/home/project/index.ts');
+
+    expect(store.getFile('/home/project/index.ts')).toBeDefined();
+    expect(getDeletedPaths()).toEqual([]);
+  });
+
+  it('should forget the deletion of the folders containing the paths', async () => {
+    const store = createFilesStore();
+
+    await vi.runAllTimersAsync();
+    await addFiles('/home/project/src/a.ts', '/home/project/other.ts');
+    await store.deleteFolder('/home/project/src');
+    await store.deleteFile('/home/project/other.ts');
+
+    store.clearDeletedPaths(['/home/project/src/a.ts']);
+    await addFiles('/home/project/src/a.ts');
+
+    expect(store.getFile('/home/project/src/a.ts')).toBeDefined();
+    expect(getDeletedPaths()).toEqual(['/home/project/other.ts']);
+  });
+});
+
+describe('FilesStore.renameFile', () => {
+  it('should keep late watcher events from bringing back the old path', async () => {
+    const store = createFilesStore();
+
+    await vi.runAllTimersAsync();
+    await addFiles('/home/project/src/a.ts');
+    await store.renameFile('/home/project/src', '/home/project/lib');
+    await addFiles('/home/project/src/a.ts', '/home/project/lib/a.ts');
+
+    expect(store.getFile('/home/project/src/a.ts')).toBeUndefined();
+    expect(store.getFile('/home/project/lib/a.ts')).toBeDefined();
+    expect(getDeletedPaths()).toEqual(['/home/project/src', '/home/project/src/a.ts']);
+  });
+
+  it('should clear the deletion of the new path and its folders', async () => {
+    const store = createFilesStore();
+
+    await vi.runAllTimersAsync();
+    await addFiles('/home/project/a.ts', '/home/project/old/b.ts');
+    await store.deleteFolder('/home/project/old');
+    await store.renameFile('/home/project/a.ts', '/home/project/old/b.ts');
+    await addFiles('/home/project/old/b.ts');
+
+    expect(store.getFile('/home/project/old/b.ts')).toBeDefined();
+    expect(getDeletedPaths()).toEqual(['/home/project/a.ts']);
+  });
+});
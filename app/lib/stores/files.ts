@@ -451,6 +451,96 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Renames or moves a file or folder. Children of a folder are moved along with it.
+   */
+  async renameFile(oldPath: string, newPath: string) {
+    const webcontainer = await this.#webcontainer;
+
+    try {
+      const oldRelativePath = path.relative(webcontainer.workdir, oldPath);
+      const newRelativePath = path.relative(webcontainer.workdir, newPath);
+
+      if (!oldRelativePath || !newRelativePath) {
+        throw new Error(`EINVAL: invalid file path, rename '${oldRelativePath}' -> '${newRelativePath}'`);
+      }
+
+      const dirPath = path.dirname(newRelativePath);
+
+      if (dirPath !== '.') {
+        await webcontainer.fs.mkdir(dirPath, { recursive: true });
+      }
+
+      await webcontainer.fs.rename(oldRelativePath, newRelativePath);
+
+      // like a deletion, a late watcher event must not bring back the old path
+      this.#deletedPaths.add(oldPath);
+
+      const allFiles = this.files.get();
+
+      for (const [direntPath, dirent] of Object.entries(allFiles)) {
+        if (direntPath !== oldPath && !direntPath.startsWith(oldPath + '/')) {
+          continue;
+        }
+
+        const targetPath = newPath + direntPath.slice(oldPath.length);
+
+        this.#deletedPaths.add(direntPath);
+
+        // the target might have been deleted before, the watcher would ignore it otherwise
+        this.#deletedPaths.delete(targetPath);
+
+        this.files.setKey(direntPath, undefined);
+        this.files.setKey(targetPath, dirent);
+
+        const originalContent = this.#modifiedFiles.get(direntPath);
+
+        if (originalContent !== undefined) {
+          this.#modifiedFiles.delete(direntPath);
+          this.#modifiedFiles.set(targetPath, originalContent);
+        }
+      }
+
+      // the target can also be moved into a deleted folder
+      this.#forgetDeletedPaths([newPath]);
+      this.#persistDeletedPaths();
+
+      logger.info(`Renamed: ${oldPath} -> ${newPath}`);
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to rename file\n\n', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Forgets the deletion of the given paths and of the folders containing them, so the watcher picks them up
+   * again when they are written back, e.g. when a checkpoint is restored.
+   */
+  clearDeletedPaths(paths: string[]) {
+    if (this.#forgetDeletedPaths(paths)) {
+      this.#persistDeletedPaths();
+    }
+  }
+
+  /**
+   * Forgets the deletion of the given paths and of the folders containing them. Returns whether any was
+   * deleted.
+   */
+  #forgetDeletedPaths(paths: string[]) {
+    let changed = false;
+
+    for (const deletedPath of [...this.#deletedPaths]) {
+      if (paths.some((filePath) => filePath === deletedPath || filePath.startsWith(deletedPath + '/'))) {
+        this.#deletedPaths.delete(deletedPath);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
   // method to persist deleted paths to localStorage
   #persistDeletedPaths() {
     try {
@@ -0,0 +1,138 @@
+import { generateId } from 'ai';
+import { atom } from 'nanostores';
+import { db, deletePrompt, getAllPrompts, setPrompt, type UserPrompt } from '~/lib/persistence';
+import { promptStore, updatePromptId } from '~/lib/stores/settings';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Prompts');
+
+// keeps the ids of user prompts apart from the ones of the built-in prompts
+const USER_PROMPT_PREFIX = 'user:';
+
+export interface PromptExport {
+  prompts: UserPrompt[];
+  exportDate: string;
+}
+
+export const userPromptsStore = atom<UserPrompt[]>([]);
+
+export function isUserPrompt(id: string) {
+  return id.startsWith(USER_PROMPT_PREFIX);
+}
+
+export function getPromptContent(prompt: UserPrompt) {
+  return prompt.versions[prompt.versions.length - 1]?.content ?? '';
+}
+
+async function persist(prompt: UserPrompt) {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+
+  await setPrompt(db, prompt);
+
+  const prompts = userPromptsStore.get();
+  const exists = prompts.some((entry) => entry.id === prompt.id);
+
+  userPromptsStore.set(
+    exists ? prompts.map((entry) => (entry.id === prompt.id ? prompt : entry)) : [...prompts, prompt],
+  );
+
+  return prompt;
+}
+
+export function createUserPrompt(label: string, description: string, content: string) {
+  return persist({
+    id: `${USER_PROMPT_PREFIX}${generateId()}`,
+    label,
+    description,
+    versions: [{ content, timestamp: new Date().toISOString() }],
+  });
+}
+
+/**
+ * Saves changes to a prompt, a changed content is added as a new version.
+ */
+export function updateUserPrompt(id: string, changes: { label: string; description: string; content: string }) {
+  const prompt = userPromptsStore.get().find((entry) => entry.id === id);
+
+  if (!prompt) {
+    throw new Error(`Prompt ${id} not found`);
+  }
+
+  const versions =
+    changes.content === getPromptContent(prompt)
+      ? prompt.versions
+      : [...prompt.versions, { content: changes.content, timestamp: new Date().toISOString() }];
+
+  return persist({ ...prompt, label: changes.label, description: changes.description, versions });
+}
+
+export function duplicateUserPrompt(id: string) {
+  const prompt = userPromptsStore.get().find((entry) => entry.id === id);
+
+  if (!prompt) {
+    throw new Error(`Prompt ${id} not found`);
+  }
+
+  return createUserPrompt(`${prompt.label} (copy)`, prompt.description, getPromptContent(prompt));
+}
+
+export async function deleteUserPrompt(id: string) {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+
+  await deletePrompt(db, id);
+  userPromptsStore.set(userPromptsStore.get().filter((entry) => entry.id !== id));
+
+  if (promptStore.get() === id) {
+    updatePromptId('default');
+  }
+}
+
+export function exportUserPrompts(): PromptExport {
+  return { prompts: userPromptsStore.get(), exportDate: new Date().toISOString() };
+}
+
+/**
+ * Imports exported prompts. Prompts with the id of an existing prompt replace it, so importing the same
+ * export twice doesn't duplicate the prompts.
+ */
+export async function importUserPrompts(data: PromptExport) {
+  if (!Array.isArray(data?.prompts)) {
+    throw new Error('Invalid prompt export');
+  }
+
+  for (const prompt of data.prompts) {
+    const valid =
+      typeof prompt?.id === 'string' &&
+      isUserPrompt(prompt.id) &&
+      typeof prompt.label === 'string' &&
+      Array.isArray(prompt.versions) &&
+      prompt.versions.every((version) => typeof version?.content === 'string');
+
+    if (!valid) {
+      throw new Error('Invalid prompt in the export');
+    }
+  }
+
+  for (const prompt of data.prompts) {
+    await persist({ ...prompt, description: prompt.description ?? '' });
+  }
+
+  return data.prompts.length;
+}
+
+if (typeof window !== 'undefined' && db) {
+  getAllPrompts(db)
+    .then((prompts) => {
+      userPromptsStore.set(prompts);
+
+      // the prompt was deleted in another tab or the database was cleared
+      if (isUserPrompt(promptStore.get()) && !prompts.some((prompt) => prompt.id === promptStore.get())) {
+        updatePromptId('default');
+      }
+    })
+    .catch((error) => logger.error('Failed to load the user prompts', error));
+}
@@ -1,6 +1,7 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import type { IProviderConfig, IProviderSetting } from '~/types/model';
+import type { ContextSelection } from '~/types/context';
 import type {
   TabVisibilityConfig,
   TabWindowConfig,
@@ -11,6 +12,7 @@ import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import Cookies from 'js-cookie';
 import { toggleTheme } from './theme';
 import { create } from 'zustand';
+import { DEFAULT_COMMAND_ALLOWLIST } from '~/lib/runtime/action-approval';
 
 export interface Shortcut {
   key: string;
@@ -62,6 +64,17 @@ const PROVIDER_SETTINGS_KEY = 'provider_settings';
 // Add this helper function at the top of the file
 const isBrowser = typeof window !== 'undefined';
 
+// OpenAI-compatible endpoints added by the user only exist in their settings
+const createCustomProviderConfig = (name: string, settings: IProviderSetting): IProviderConfig => ({
+  name,
+  staticModels: [],
+  icon: 'i-ph:plugs-connected',
+
+  // the endpoint may or may not serve embedding models, the user names them
+  embeddingModels: [],
+  settings: { ...settings, custom: true },
+});
+
 // Initialize provider settings from both localStorage and defaults
 const getInitialProviderSettings = (): ProviderSetting => {
   const initialSettings: ProviderSetting = {};
@@ -71,8 +84,8 @@ const getInitialProviderSettings = (): ProviderSetting => {
     initialSettings[provider.name] = {
       ...provider,
       settings: {
-        // Local providers should be disabled by default
-        enabled: !LOCAL_PROVIDERS.includes(provider.name),
+        // Local providers and the mock provider for tests should be disabled by default
+        enabled: ![...LOCAL_PROVIDERS, 'Mock'].includes(provider.name),
       },
     };
   });
@@ -85,8 +98,12 @@ const getInitialProviderSettings = (): ProviderSetting => {
       try {
         const parsed = JSON.parse(savedSettings);
         Object.entries(parsed).forEach(([key, value]) => {
+          const { settings } = value as IProviderConfig;
+
           if (initialSettings[key]) {
-            initialSettings[key].settings = (value as IProviderConfig).settings;
+            initialSettings[key].settings = settings;
+          } else if (settings?.custom) {
+            initialSettings[key] = createCustomProviderConfig(key, settings);
           }
         });
       } catch (error) {
@@ -121,6 +138,18 @@ export const updateProviderSettings = (provider: string, settings: ProviderSetti
   localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(allSettings));
 };
 
+export const addCustomProvider = (name: string, settings: IProviderSetting) => {
+  providersStore.setKey(name, createCustomProviderConfig(name, settings));
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(providersStore.get()));
+};
+
+export const removeCustomProvider = (name: string) => {
+  const { [name]: _removed, ...rest } = providersStore.get();
+
+  providersStore.set(rest);
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(rest));
+};
+
 export const isDebugMode = atom(false);
 
 // Define keys for localStorage
@@ -131,6 +160,16 @@ const SETTINGS_KEYS = {
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
+  ACTION_APPROVAL: 'actionApprovalEnabled',
+  COMMAND_ALLOWLIST: 'commandAllowlist',
+  AUTO_FIX: 'autoFixEnabled',
+  TOOL_CALLING_MODELS: 'toolCallingModels',
+  FALLBACK_MODELS: 'fallbackModels',
+  CONTEXT_SELECTION: 'contextSelection',
+  EMBEDDING_MODEL: 'embeddingModel',
+  UTILITY_MODEL: 'utilityModel',
+  PLAN_MODE: 'planModeEnabled',
+  THINKING_BUDGETS: 'thinkingBudgets',
 } as const;
 
 // Initialize settings from localStorage or defaults
@@ -153,6 +192,32 @@ const getInitialSettings = () => {
     }
   };
 
+  const getStoredList = (key: string, defaultValue: string[]): string[] => {
+    if (!isBrowser) {
+      return defaultValue;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) ?? 'null');
+      return Array.isArray(stored) ? stored : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  };
+
+  const getStoredNumbers = (key: string): Record<string, number> => {
+    if (!isBrowser) {
+      return {};
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) ?? 'null');
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  };
+
   return {
     latestBranch: getStoredBoolean(SETTINGS_KEYS.LATEST_BRANCH, false),
     autoSelectTemplate: getStoredBoolean(SETTINGS_KEYS.AUTO_SELECT_TEMPLATE, true),
@@ -160,6 +225,17 @@ const getInitialSettings = () => {
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
+    actionApproval: getStoredBoolean(SETTINGS_KEYS.ACTION_APPROVAL, false),
+    commandAllowlist: getStoredList(SETTINGS_KEYS.COMMAND_ALLOWLIST, DEFAULT_COMMAND_ALLOWLIST),
+    autoFix: getStoredBoolean(SETTINGS_KEYS.AUTO_FIX, false),
+    toolCallingModels: getStoredList(SETTINGS_KEYS.TOOL_CALLING_MODELS, []),
+    fallbackModels: getStoredList(SETTINGS_KEYS.FALLBACK_MODELS, []),
+    contextSelection: ((isBrowser && localStorage.getItem(SETTINGS_KEYS.CONTEXT_SELECTION)) ||
+      'llm') as ContextSelection,
+    embeddingModel: (isBrowser && localStorage.getItem(SETTINGS_KEYS.EMBEDDING_MODEL)) || '',
+    utilityModel: (isBrowser && localStorage.getItem(SETTINGS_KEYS.UTILITY_MODEL)) || '',
+    planMode: getStoredBoolean(SETTINGS_KEYS.PLAN_MODE, false),
+    thinkingBudgets: getStoredNumbers(SETTINGS_KEYS.THINKING_BUDGETS),
   };
 };
 
@@ -171,6 +247,32 @@ export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelec
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const actionApprovalStore = atom<boolean>(initialSettings.actionApproval);
+export const commandAllowlistStore = atom<string[]>(initialSettings.commandAllowlist);
+export const autoFixEnabledStore = atom<boolean>(initialSettings.autoFix);
+
+// models that use native tool calls instead of artifacts, as `<provider>/<model>`
+export const toolCallingModelsStore = atom<string[]>(initialSettings.toolCallingModels);
+
+// models that answer in order when the selected model errors or is rate-limited, as `<provider>/<model>`
+export const fallbackModelsStore = atom<string[]>(initialSettings.fallbackModels);
+
+export const contextSelectionStore = atom<ContextSelection>(initialSettings.contextSelection);
+
+// the model that embeds the project files for the context selection, as `<provider>/<model>`, empty when unset
+export const embeddingModelStore = atom<string>(initialSettings.embeddingModel);
+
+/*
+ * the model of the calls around a response, i.e. the chat summary, the context selection and the prompt
+ * enhancer, as `<provider>/<model>`, empty to use the selected model
+ */
+export const utilityModelStore = atom<string>(initialSettings.utilityModel);
+
+// the model answers new requests with a plan, and builds it once the user approved it
+export const planModeStore = atom<boolean>(initialSettings.planMode);
+
+// the thinking budgets of reasoning models in tokens, by `<provider>/<model>`, the others think as their provider sets
+export const thinkingBudgetsStore = atom<Record<string, number>>(initialSettings.thinkingBudgets);
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -198,6 +300,77 @@ export const updatePromptId = (id: string) => {
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateActionApproval = (enabled: boolean) => {
+  actionApprovalStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.ACTION_APPROVAL, JSON.stringify(enabled));
+};
+
+export const updateCommandAllowlist = (commands: string[]) => {
+  commandAllowlistStore.set(commands);
+  localStorage.setItem(SETTINGS_KEYS.COMMAND_ALLOWLIST, JSON.stringify(commands));
+};
+
+export const updateAutoFix = (enabled: boolean) => {
+  autoFixEnabledStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX, JSON.stringify(enabled));
+};
+
+export const getModelKey = (provider: string, model: string) => `${provider}/${model}`;
+
+// model names can contain slashes themselves, provider names can't
+export const parseModelKey = (key: string) => {
+  const index = key.indexOf('/');
+  return { provider: key.slice(0, index), model: key.slice(index + 1) };
+};
+
+export const updateToolCalling = (provider: string, model: string, enabled: boolean) => {
+  const key = getModelKey(provider, model);
+  const models = toolCallingModelsStore.get().filter((entry) => entry !== key);
+
+  if (enabled) {
+    models.push(key);
+  }
+
+  toolCallingModelsStore.set(models);
+  localStorage.setItem(SETTINGS_KEYS.TOOL_CALLING_MODELS, JSON.stringify(models));
+};
+
+export const updateFallbackModels = (models: string[]) => {
+  fallbackModelsStore.set(models);
+  localStorage.setItem(SETTINGS_KEYS.FALLBACK_MODELS, JSON.stringify(models));
+};
+
+export const updateContextSelection = (selection: ContextSelection) => {
+  contextSelectionStore.set(selection);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_SELECTION, selection);
+};
+
+export const updateEmbeddingModel = (key: string) => {
+  embeddingModelStore.set(key);
+  localStorage.setItem(SETTINGS_KEYS.EMBEDDING_MODEL, key);
+};
+
+export const updateUtilityModel = (key: string) => {
+  utilityModelStore.set(key);
+  localStorage.setItem(SETTINGS_KEYS.UTILITY_MODEL, key);
+};
+
+export const updatePlanMode = (enabled: boolean) => {
+  planModeStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.PLAN_MODE, JSON.stringify(enabled));
+};
+
+export const updateThinkingBudget = (provider: string, model: string, budget?: number) => {
+  const { [getModelKey(provider, model)]: _previous, ...budgets } = thinkingBudgetsStore.get();
+
+  if (budget) {
+    budgets[getModelKey(provider, model)] = budget;
+  }
+
+  thinkingBudgetsStore.set(budgets);
+  localStorage.setItem(SETTINGS_KEYS.THINKING_BUDGETS, JSON.stringify(budgets));
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
@@ -222,11 +395,21 @@ const getInitialTabConfiguration = (): TabWindowConfig => {
       return defaultConfig;
     }
 
+    // tabs added since the configuration was saved are appended with their defaults
+    const withNewTabs = <T extends TabVisibilityConfig>(tabs: T[], defaults: T[]) => [
+      ...tabs,
+      ...defaults.filter((tab) => !tabs.some((saved) => saved.id === tab.id)),
+    ];
+
     // Ensure proper typing of loaded configuration
     return {
-      userTabs: parsed.userTabs.filter((tab: TabVisibilityConfig): tab is UserTabConfig => tab.window === 'user'),
-      developerTabs: parsed.developerTabs.filter(
-        (tab: TabVisibilityConfig): tab is DevTabConfig => tab.window === 'developer',
+      userTabs: withNewTabs(
+        parsed.userTabs.filter((tab: TabVisibilityConfig): tab is UserTabConfig => tab.window === 'user'),
+        defaultConfig.userTabs,
+      ),
+      developerTabs: withNewTabs(
+        parsed.developerTabs.filter((tab: TabVisibilityConfig): tab is DevTabConfig => tab.window === 'developer'),
+        defaultConfig.developerTabs,
       ),
     };
   } catch (error) {
@@ -18,6 +18,10 @@ import { description } from '~/lib/persistence';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert, SupabaseAlert } from '~/types/actions';
+import { actionApprovalStore, commandAllowlistStore } from './settings';
+import { requiresApproval } from '~/lib/runtime/action-approval';
+import { mergeThreeWay, resolveMerge, type MergeChunk } from '~/utils/merge';
+import { PROJECT_RULES_PATH, PROJECT_RULES_TEMPLATE } from '~/lib/common/project-rules';
 
 const { saveAs } = fileSaver;
 
@@ -33,6 +37,28 @@ export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
 
 type Artifacts = MapStore<Record<string, ArtifactState>>;
 
+export interface MergeConflictState {
+  filePath: string;
+
+  /**
+   * Content of the file when the user last saved it.
+   */
+  base: string;
+
+  /**
+   * Unsaved editor buffer of the user.
+   */
+  mine: string;
+
+  /**
+   * Content written by the AI.
+   */
+  theirs: string;
+  chunks: MergeChunk[];
+}
+
+type MergeConflicts = MapStore<Record<string, MergeConflictState | undefined>>;
+
 export type WorkbenchViewType = 'code' | 'diff' | 'preview';
 
 export class WorkbenchStore {
@@ -52,6 +78,7 @@ export class WorkbenchStore {
     import.meta.hot?.data.unsavedFiles ?? atom<ActionAlert | undefined>(undefined);
   supabaseAlert: WritableAtom<SupabaseAlert | undefined> =
     import.meta.hot?.data.unsavedFiles ?? atom<ActionAlert | undefined>(undefined);
+  mergeConflicts: MergeConflicts = import.meta.hot?.data.mergeConflicts ?? map({});
   modifiedFiles = new Set<string>();
   artifactIdList: string[] = [];
   #globalExecutionQueue = Promise.resolve();
@@ -63,6 +90,7 @@ export class WorkbenchStore {
       import.meta.hot.data.currentView = this.currentView;
       import.meta.hot.data.actionAlert = this.actionAlert;
       import.meta.hot.data.supabaseAlert = this.supabaseAlert;
+      import.meta.hot.data.mergeConflicts = this.mergeConflicts;
 
       // Ensure binary files are properly preserved across hot reloads
       const filesMap = this.files.get();
@@ -80,6 +108,18 @@ export class WorkbenchStore {
     this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
   }
 
+  /**
+   * Resolves once all queued actions ran, including the ones that are queued while waiting.
+   */
+  async waitForActions() {
+    let queue: Promise<void>;
+
+    do {
+      queue = this.#globalExecutionQueue;
+      await queue;
+    } while (queue !== this.#globalExecutionQueue);
+  }
+
   get previews() {
     return this.#previewsStore.previews;
   }
@@ -141,7 +181,7 @@ export class WorkbenchStore {
   }
 
   setDocuments(files: FileMap) {
-    this.#editorStore.setDocuments(files);
+    this.#editorStore.setDocuments(files, this.unsavedFiles.get());
 
     if (this.#filesStore.filesCount > 0 && this.currentDocument.get() === undefined) {
       // we find the first file and select it
@@ -217,6 +257,9 @@ export class WorkbenchStore {
 
     await this.#filesStore.saveFile(filePath, document.value);
 
+    // saving the buffer as-is discards the content of a pending merge conflict
+    this.mergeConflicts.setKey(filePath, undefined);
+
     const newUnsavedFiles = new Set(this.unsavedFiles.get());
     newUnsavedFiles.delete(filePath);
 
@@ -247,6 +290,7 @@ export class WorkbenchStore {
       return;
     }
 
+    this.mergeConflicts.setKey(filePath, undefined);
     this.setCurrentDocumentContent(file.content);
   }
 
@@ -293,6 +337,24 @@ export class WorkbenchStore {
     }
   }
 
+  /**
+   * Opens the rules of the project in the editor, starting from a template when the project has none yet.
+   */
+  async openProjectRules() {
+    this.currentView.set('code');
+
+    if (this.#filesStore.getFile(PROJECT_RULES_PATH)) {
+      this.setSelectedFile(PROJECT_RULES_PATH);
+      return;
+    }
+
+    await this.createFile(PROJECT_RULES_PATH, PROJECT_RULES_TEMPLATE);
+  }
+
+  clearDeletedPaths(paths: string[]) {
+    this.#filesStore.clearDeletedPaths(paths);
+  }
+
   async createFolder(folderPath: string) {
     try {
       return await this.#filesStore.createFolder(folderPath);
@@ -382,6 +444,68 @@ export class WorkbenchStore {
     }
   }
 
+  async renameFile(oldPath: string, newPath: string) {
+    const movePath = (filePath: string) => {
+      if (filePath !== oldPath && !filePath.startsWith(oldPath + '/')) {
+        return undefined;
+      }
+
+      return newPath + filePath.slice(oldPath.length);
+    };
+
+    try {
+      const previousDocuments = this.#editorStore.documents.get();
+      const selectedFile = this.selectedFile.get();
+
+      const success = await this.#filesStore.renameFile(oldPath, newPath);
+
+      if (success) {
+        const unsavedFiles = this.unsavedFiles.get();
+        const newUnsavedFiles = new Set<string>();
+
+        for (const filePath of unsavedFiles) {
+          const targetPath = movePath(filePath);
+
+          if (!targetPath) {
+            newUnsavedFiles.add(filePath);
+            continue;
+          }
+
+          newUnsavedFiles.add(targetPath);
+
+          // the renamed document is created from the file content, so the unsaved buffer has to be carried over
+          const previousDocument = previousDocuments[filePath];
+
+          if (previousDocument) {
+            this.#editorStore.documents.setKey(targetPath, { ...previousDocument, filePath: targetPath });
+          }
+        }
+
+        this.unsavedFiles.set(newUnsavedFiles);
+
+        for (const [filePath, conflict] of Object.entries(this.mergeConflicts.get())) {
+          const targetPath = movePath(filePath);
+
+          if (conflict && targetPath) {
+            this.mergeConflicts.setKey(filePath, undefined);
+            this.mergeConflicts.setKey(targetPath, { ...conflict, filePath: targetPath });
+          }
+        }
+
+        const selectedTarget = selectedFile ? movePath(selectedFile) : undefined;
+
+        if (selectedTarget) {
+          this.setSelectedFile(selectedTarget);
+        }
+      }
+
+      return success;
+    } catch (error) {
+      console.error('Failed to rename file:', error);
+      throw error;
+    }
+  }
+
   abortAllActions() {
     // TODO: what do we wanna do and how do we wanna recover from this?
   }
@@ -423,6 +547,19 @@ export class WorkbenchStore {
 
           this.supabaseAlert.set(alert);
         },
+        {
+          getFile: (filePath) => this.#filesStore.getFile(filePath),
+          deleteFile: (filePath, isFolder) => (isFolder ? this.deleteFolder(filePath) : this.deleteFile(filePath)),
+          renameFile: (oldPath, newPath) => this.renameFile(oldPath, newPath),
+        },
+        (action) => {
+          // actions of restored messages already ran once, so they are replayed without asking again
+          if (!actionApprovalStore.get() || this.#reloadedMessages.has(messageId)) {
+            return false;
+          }
+
+          return requiresApproval(action, commandAllowlistStore.get());
+        },
       ),
     });
   }
@@ -488,22 +625,109 @@ export class WorkbenchStore {
       }
 
       const doc = this.#editorStore.documents.get()[fullPath];
+      const hasUnsavedChanges = this.unsavedFiles.get().has(fullPath);
 
       if (!doc) {
         await artifact.runner.runAction(data, isStreaming);
       }
 
-      this.#editorStore.updateFile(fullPath, data.action.content);
+      // never stream over a buffer with hand edits, those get merged once the action completes
+      if (!hasUnsavedChanges) {
+        this.#editorStore.updateFile(fullPath, data.action.content);
+      }
 
       if (!isStreaming) {
+        const savedContent = this.#filesStore.getFile(fullPath)?.content;
+
         await artifact.runner.runAction(data);
         this.resetAllFileModifications();
+
+        if (hasUnsavedChanges && savedContent !== undefined) {
+          this.#mergeUnsavedChanges(fullPath, savedContent, data.action.content);
+        }
+      }
+    } else if (data.action.type === 'edit') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
+      }
+
+      const hasUnsavedChanges = this.unsavedFiles.get().has(fullPath);
+      const savedContent = this.#filesStore.getFile(fullPath)?.content;
+
+      // the editor document is refreshed from the file watcher once the patched file is written
+      await artifact.runner.runAction(data);
+      this.resetAllFileModifications();
+
+      if (
+        hasUnsavedChanges &&
+        savedContent !== undefined &&
+        artifact.runner.actions.get()[data.actionId]?.status === 'complete'
+      ) {
+        const patchedContent = await wc.fs.readFile(path.relative(wc.workdir, fullPath), 'utf-8');
+        this.#mergeUnsavedChanges(fullPath, savedContent, patchedContent);
       }
     } else {
       await artifact.runner.runAction(data);
     }
   }
 
+  resolveMergeConflict(filePath: string, content: string) {
+    const conflict = this.mergeConflicts.get()[filePath];
+
+    if (!conflict) {
+      return;
+    }
+
+    this.mergeConflicts.setKey(filePath, undefined);
+    this.#setUnsavedContent(filePath, content, conflict.theirs);
+  }
+
+  /**
+   * Rebases the unsaved editor buffer of a file onto the content an action just wrote. Non overlapping
+   * changes are merged right away, otherwise the conflict is kept until the user resolves it in the diff view.
+   */
+  #mergeUnsavedChanges(filePath: string, savedContent: string, newContent: string) {
+    const mine = this.#editorStore.documents.get()[filePath]?.value;
+
+    if (mine === undefined) {
+      return;
+    }
+
+    // a pending conflict means the buffer is still based on the content from before that conflict
+    const base = this.mergeConflicts.get()[filePath]?.base ?? savedContent;
+    const { chunks, hasConflicts } = mergeThreeWay(base, mine, newContent);
+
+    if (!hasConflicts) {
+      this.mergeConflicts.setKey(filePath, undefined);
+      this.#setUnsavedContent(filePath, resolveMerge(chunks), newContent);
+
+      return;
+    }
+
+    this.mergeConflicts.setKey(filePath, { filePath, base, mine, theirs: newContent, chunks });
+  }
+
+  #setUnsavedContent(filePath: string, content: string, savedContent: string) {
+    this.#editorStore.updateFile(filePath, content);
+
+    const newUnsavedFiles = new Set(this.unsavedFiles.get());
+
+    if (content === savedContent) {
+      newUnsavedFiles.delete(filePath);
+    } else {
+      newUnsavedFiles.add(filePath);
+    }
+
+    this.unsavedFiles.set(newUnsavedFiles);
+  }
+
   actionStreamSampler = createSampler(async (data: ActionCallbackData, isStreaming: boolean = false) => {
     return await this._runAction(data, isStreaming);
   }, 100); // TODO: remove this magic number to have it configurable
@@ -525,9 +749,12 @@ export class WorkbenchStore {
     const uniqueProjectName = `${projectName}_${timestampHash}`;
 
     for (const [filePath, dirent] of Object.entries(files)) {
-      if (dirent?.type === 'file' && !dirent.isBinary) {
+      if (dirent?.type === 'file') {
         const relativePath = extractRelativePath(filePath);
 
+        // binary files are kept as base64 in the files store
+        const options = { base64: dirent.isBinary };
+
         // split the path into segments
         const pathSegments = relativePath.split('/');
 
@@ -538,10 +765,10 @@ export class WorkbenchStore {
           for (let i = 0; i < pathSegments.length - 1; i++) {
             currentFolder = currentFolder.folder(pathSegments[i])!;
           }
-          currentFolder.file(pathSegments[pathSegments.length - 1], dirent.content);
+          currentFolder.file(pathSegments[pathSegments.length - 1], dirent.content, options);
         } else {
           // if there's only one segment, it's a file in the root
-          zip.file(relativePath, dirent.content);
+          zip.file(relativePath, dirent.content, options);
         }
       }
     }
@@ -0,0 +1,55 @@
+import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { cancelStream, resumeStream } from '~/lib/.server/llm/resumable-stream';
+
+/**
+ * Resumes a chat response from the byte offset the client received last.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const token = url.searchParams.get('token');
+  const offset = Number(url.searchParams.get('offset') ?? 0);
+
+  if (!token || !Number.isInteger(offset) || offset < 0) {
+    throw new Response('Invalid or missing stream token or offset', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  const stream = resumeStream(token, offset);
+
+  if (!stream) {
+    throw new Response('Stream not found or expired', {
+      status: 404,
+      statusText: 'Not Found',
+    });
+  }
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      Connection: 'keep-alive',
+      'Cache-Control': 'no-cache',
+      'Text-Encoding': 'chunked',
+    },
+  });
+}
+
+/**
+ * Stops the generation of a chat response, which otherwise goes on without a connected client.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (request.method !== 'DELETE' || !token) {
+    throw new Response('Invalid method or missing stream token', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  await cancelStream(token);
+
+  return new Response(null, { status: 204 });
+}
@@ -1,16 +1,31 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { createDataStream, generateId } from 'ai';
-import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
-import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
+import { MAX_READ_SEGMENTS, type FileMap } from '~/lib/.server/llm/constants';
+import { READ_RESULTS_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
-import SwitchableStream from '~/lib/.server/llm/switchable-stream';
-import type { IProviderSetting } from '~/types/model';
+import { createResumableStream } from '~/lib/.server/llm/resumable-stream';
+import type { IProviderSetting, ModelReference } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
-import { WORK_DIR } from '~/utils/constants';
+import type {
+  ContextAnnotation,
+  ContextSelection,
+  ModelAnnotation,
+  ModelUsage,
+  ProgressAnnotation,
+  ReasoningAnnotation,
+  TokenBudgetAnnotation,
+} from '~/types/context';
+import { RESUME_TOKEN_HEADER, WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
-import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
+import { extractPropertiesFromMessage, getMaxResponseSegments } from '~/lib/.server/llm/utils';
+import { createContinuePrompt, markContinuation } from '~/lib/.server/llm/continuation';
+import { createReadResults, extractReadActions } from '~/lib/.server/llm/project-reader';
+import { addUsage, createUsageAnnotation } from '~/lib/.server/llm/usage';
+import type { TokenBudget } from '~/lib/.server/llm/token-budget';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { getCompletedSteps, type ChatMode, type Plan } from '~/lib/common/plan';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -18,6 +33,28 @@ export async function action(args: ActionFunctionArgs) {
 
 const logger = createScopedLogger('api.chat');
 
+/**
+ * Resolves a model like `streamText` does, so dynamic models and custom endpoints get their limits too.
+ */
+async function getModelInfo(
+  { provider, model }: ModelReference,
+  options: Parameters<LLMManager['resolveModel']>[2],
+): Promise<ModelInfo | undefined> {
+  const llmManager = LLMManager.getInstance();
+  const llmProvider = llmManager.getProvider(provider);
+
+  if (!llmProvider) {
+    return undefined;
+  }
+
+  try {
+    return await llmManager.resolveModel(llmProvider, model, options);
+  } catch (error) {
+    logger.warn(`Failed to resolve ${provider}/${model}`, error);
+    return undefined;
+  }
+}
+
 function parseCookies(cookieHeader: string): Record<string, string> {
   const cookies: Record<string, string> = {};
 
@@ -37,11 +74,43 @@ function parseCookies(cookieHeader: string): Record<string, string> {
 }
 
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, files, promptId, contextOptimization, supabase } = await request.json<{
+  const {
+    messages,
+    files,
+    promptId,
+    promptTemplate,
+    contextOptimization,
+    contextSelection,
+    rankedFiles,
+    toolCalling,
+    fallbackModels,
+    utilityModel,
+    chatMode,
+    plan,
+    thinkingBudget,
+    resumable,
+    supabase,
+  } = await request.json<{
     messages: Messages;
     files: any;
     promptId?: string;
+    promptTemplate?: string;
     contextOptimization: boolean;
+    contextSelection?: ContextSelection;
+    rankedFiles?: string[];
+    toolCalling?: boolean;
+    fallbackModels?: ModelReference[];
+    utilityModel?: ModelReference;
+    chatMode?: ChatMode;
+
+    // the plan the user approved, sent with the request that builds it
+    plan?: Plan;
+
+    // the thinking budget of the selected model, in tokens
+    thinkingBudget?: number;
+
+    // buffers the response, so the client can resume it after losing the connection
+    resumable?: boolean;
     supabase?: {
       isConnected: boolean;
       hasSelectedProject: boolean;
@@ -58,13 +127,13 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     parseCookies(cookieHeader || '').providers || '{}',
   );
 
-  const stream = new SwitchableStream();
+  LLMManager.getInstance(context.cloudflare?.env as any).registerCustomProviders(providerSettings);
 
-  const cumulativeUsage = {
-    completionTokens: 0,
-    promptTokens: 0,
-    totalTokens: 0,
-  };
+  // a plan doesn't change the project, so the model gets no tools to change it
+  const useTools = toolCalling && chatMode !== 'plan';
+
+  // usage of all calls of the response, by the model that answered them
+  const modelUsage: ModelUsage[] = [];
   const encoder: TextEncoder = new TextEncoder();
   let progressCounter: number = 1;
 
@@ -72,8 +141,6 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     const totalMessageContent = messages.reduce((acc, message) => acc + message.content, '');
     logger.debug(`Total message length: ${totalMessageContent.split(' ').length}, words`);
 
-    let lastChunk: string | undefined = undefined;
-
     const dataStream = createDataStream({
       async execute(dataStream) {
         const filePaths = getFilePaths(files || {});
@@ -85,6 +152,19 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           messageSliceId = messages.length - 3;
         }
 
+        const lastUserMessage = messages.filter((x) => x.role == 'user').slice(-1)[0];
+        const { provider: selectedProvider, model: selectedModelName } = extractPropertiesFromMessage(lastUserMessage);
+        const selectedModel: ModelReference = { provider: selectedProvider, model: selectedModelName };
+
+        // the summary and the context selection run on the utility model, the response on the selected model
+        let auxiliaryModel = selectedModel;
+
+        if (utilityModel && LLMManager.getInstance().getProvider(utilityModel.provider)) {
+          auxiliaryModel = { provider: utilityModel.provider, model: utilityModel.model };
+        } else if (utilityModel) {
+          logger.warn(`Utility model provider ${utilityModel.provider} not found, using ${selectedModel.provider}`);
+        }
+
         if (filePaths.length > 0 && contextOptimization) {
           logger.debug('Generating Chat Summary');
           dataStream.writeData({
@@ -93,6 +173,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             status: 'in-progress',
             order: progressCounter++,
             message: 'Analysing Request',
+            model: auxiliaryModel,
           } satisfies ProgressAnnotation);
 
           // Create a summary of the chat
@@ -105,12 +186,16 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             providerSettings,
             promptId,
             contextOptimization,
+            model: auxiliaryModel,
             onFinish(resp) {
               if (resp.usage) {
                 logger.debug('createSummary token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                addUsage(
+                  modelUsage,
+                  auxiliaryModel,
+                  resp.usage,
+                  resp.steps.map((step) => step.experimental_providerMetadata),
+                );
               }
             },
           });
@@ -120,6 +205,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             status: 'complete',
             order: progressCounter++,
             message: 'Analysis Complete',
+            model: auxiliaryModel,
           } satisfies ProgressAnnotation);
 
           dataStream.writeMessageAnnotation({
@@ -136,6 +222,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             status: 'in-progress',
             order: progressCounter++,
             message: 'Determining Files to Read',
+            model: auxiliaryModel,
           } satisfies ProgressAnnotation);
 
           // Select context files
@@ -149,12 +236,18 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             promptId,
             contextOptimization,
             summary,
+            contextSelection,
+            rankedFiles,
+            model: auxiliaryModel,
             onFinish(resp) {
               if (resp.usage) {
                 logger.debug('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                addUsage(
+                  modelUsage,
+                  auxiliaryModel,
+                  resp.usage,
+                  resp.steps.map((step) => step.experimental_providerMetadata),
+                );
               }
             },
           });
@@ -182,38 +275,197 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             status: 'complete',
             order: progressCounter++,
             message: 'Code Files Selected',
+            model: auxiliaryModel,
           } satisfies ProgressAnnotation);
 
           // logger.debug('Code Files Selected');
         }
 
+        // the whole response across all segments, to find the read actions that are not answered yet
+        let response = '';
+        let answeredReads = 0;
+        let readSegments = 0;
+
+        let answeredBy: ModelReference | undefined = undefined;
+
+        // later segments of the response continue with the model that answered so far
+        const onModelSelected = (selected: ModelReference) => {
+          if (answeredBy?.provider === selected.provider && answeredBy.model === selected.model) {
+            return;
+          }
+
+          answeredBy = selected;
+
+          dataStream.writeMessageAnnotation({
+            type: 'model',
+            ...selected,
+            fallback: selected.provider !== selectedModel.provider || selected.model !== selectedModel.model,
+          } satisfies ModelAnnotation);
+        };
+
+        // every segment is fitted to the context window again, the meter shows the last one
+        const onTokenBudget = (budget: TokenBudget) => {
+          dataStream.writeMessageAnnotation({ type: 'tokenBudget', ...budget } satisfies TokenBudgetAnnotation);
+        };
+
+        // the segments that continued the response after it hit the output limit
+        let continuedSegments = 0;
+
+        const continueResponse = async (content: string, prompt: string, continuation = false) => {
+          const { model, provider } = answeredBy ?? selectedModel;
+          messages.push({ id: generateId(), role: 'assistant', content });
+          messages.push({
+            id: generateId(),
+            role: 'user',
+            content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${prompt}`,
+          });
+
+          const result = await streamText({
+            messages,
+            env: context.cloudflare?.env,
+            options: continuation ? { ...options, experimental_transform: markContinuation } : options,
+            apiKeys,
+            files,
+            providerSettings,
+            promptId,
+            promptTemplate,
+            contextOptimization,
+            contextFiles: filteredFiles,
+            summary,
+            messageSliceId,
+            toolCalling: useTools,
+            fallbackModels,
+            chatMode,
+            plan,
+            thinkingBudget,
+            onModelSelected,
+            onTokenBudget,
+          });
+
+          result.mergeIntoDataStream(dataStream, { sendReasoning: true });
+
+          (async () => {
+            for await (const part of result.fullStream) {
+              if (part.type === 'error') {
+                const error: any = part.error;
+                logger.error(`${error}`);
+
+                return;
+              }
+            }
+          })();
+        };
+
+        // the steps of an approved plan are checked off as the model marks them done
+        const planSteps = plan?.steps ?? [];
+        const completedSteps = new Set<number>();
+        let stepOrder = 0;
+        let stepMarkers = '';
+
+        const writeStepProgress = (step: number, status: ProgressAnnotation['status']) => {
+          dataStream.writeData({
+            type: 'progress',
+            label: `plan-step-${step}`,
+            status,
+            order: stepOrder + step,
+            message: `Step ${step}: ${planSteps[step - 1]}`,
+          } satisfies ProgressAnnotation);
+        };
+
+        // the start of the reasoning that streams, steps and segments of the response can each reason again
+        let reasoningStart: number | undefined = undefined;
+
+        const writeReasoningDuration = () => {
+          if (reasoningStart === undefined) {
+            return;
+          }
+
+          dataStream.writeMessageAnnotation({
+            type: 'reasoning',
+            duration: Date.now() - reasoningStart,
+          } satisfies ReasoningAnnotation);
+          reasoningStart = undefined;
+        };
+
         const options: StreamingOptions = {
           supabaseConnection: supabase,
-          toolChoice: 'none',
-          onFinish: async ({ text: content, finishReason, usage }) => {
+          toolChoice: useTools ? 'auto' : 'none',
+          onChunk: ({ chunk }) => {
+            if (chunk.type === 'reasoning') {
+              reasoningStart ??= Date.now();
+              return;
+            }
+
+            writeReasoningDuration();
+
+            if (planSteps.length === 0 || chunk.type !== 'text-delta') {
+              return;
+            }
+
+            stepMarkers += chunk.textDelta;
+
+            for (const step of getCompletedSteps(stepMarkers)) {
+              if (step > planSteps.length || completedSteps.has(step)) {
+                continue;
+              }
+
+              completedSteps.add(step);
+              writeStepProgress(step, 'complete');
+
+              if (step < planSteps.length && !completedSteps.has(step + 1)) {
+                writeStepProgress(step + 1, 'in-progress');
+              }
+            }
+
+            // only the end of the text can hold a marker that is not complete yet
+            stepMarkers = stepMarkers.slice(-64);
+          },
+          onFinish: async ({ text: content, finishReason, usage, steps }) => {
             logger.debug('usage', JSON.stringify(usage));
+            writeReasoningDuration();
+
+            addUsage(
+              modelUsage,
+              answeredBy ?? selectedModel,
+              usage,
+              steps.map((step) => step.experimental_providerMetadata),
+            );
+
+            response += content;
+
+            // with native tool calls reads are tools, otherwise they are answered in a new segment
+            const readActions =
+              !useTools && finishReason !== 'length' ? extractReadActions(response).slice(answeredReads) : [];
 
-            if (usage) {
-              cumulativeUsage.completionTokens += usage.completionTokens || 0;
-              cumulativeUsage.promptTokens += usage.promptTokens || 0;
-              cumulativeUsage.totalTokens += usage.totalTokens || 0;
+            if (readActions.length > 0 && readSegments < MAX_READ_SEGMENTS) {
+              readSegments++;
+              answeredReads += readActions.length;
+
+              logger.info(`Answering ${readActions.length} read actions (${MAX_READ_SEGMENTS - readSegments} left)`);
+
+              await continueResponse(
+                content,
+                `${createReadResults(files || {}, readActions)}\n\n${READ_RESULTS_PROMPT}`,
+              );
+
+              return;
             }
 
             if (finishReason !== 'length') {
-              dataStream.writeMessageAnnotation({
-                type: 'usage',
-                value: {
-                  completionTokens: cumulativeUsage.completionTokens,
-                  promptTokens: cumulativeUsage.promptTokens,
-                  totalTokens: cumulativeUsage.totalTokens,
-                },
-              });
+              dataStream.writeMessageAnnotation(
+                await createUsageAnnotation(modelUsage, {
+                  apiKeys,
+                  providerSettings,
+                  serverEnv: context.cloudflare?.env as any,
+                }),
+              );
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
                 status: 'complete',
                 order: progressCounter++,
                 message: 'Response Generated',
+                model: answeredBy ?? selectedModel,
               } satisfies ProgressAnnotation);
               await new Promise((resolve) => setTimeout(resolve, 0));
 
@@ -221,49 +473,23 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               return;
             }
 
-            if (stream.switches >= MAX_RESPONSE_SEGMENTS) {
+            const maxSegments = getMaxResponseSegments(
+              await getModelInfo(answeredBy ?? selectedModel, {
+                apiKeys,
+                providerSettings,
+                serverEnv: context.cloudflare?.env as any,
+              }),
+            );
+
+            if (continuedSegments >= maxSegments) {
               throw Error('Cannot continue message: Maximum segments reached');
             }
 
-            const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
-
-            logger.info(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
-
-            const lastUserMessage = messages.filter((x) => x.role == 'user').slice(-1)[0];
-            const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
-            messages.push({ id: generateId(), role: 'assistant', content });
-            messages.push({
-              id: generateId(),
-              role: 'user',
-              content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${CONTINUE_PROMPT}`,
-            });
-
-            const result = await streamText({
-              messages,
-              env: context.cloudflare?.env,
-              options,
-              apiKeys,
-              files,
-              providerSettings,
-              promptId,
-              contextOptimization,
-              contextFiles: filteredFiles,
-              summary,
-              messageSliceId,
-            });
-
-            result.mergeIntoDataStream(dataStream);
-
-            (async () => {
-              for await (const part of result.fullStream) {
-                if (part.type === 'error') {
-                  const error: any = part.error;
-                  logger.error(`${error}`);
-
-                  return;
-                }
-              }
-            })();
+            continuedSegments++;
+
+            logger.info(`Reached the output limit: Continuing message (${maxSegments - continuedSegments} left)`);
+
+            await continueResponse(content, createContinuePrompt(response), true);
 
             return;
           },
@@ -275,8 +501,15 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           status: 'in-progress',
           order: progressCounter++,
           message: 'Generating Response',
+          model: selectedModel,
         } satisfies ProgressAnnotation);
 
+        if (planSteps.length > 0) {
+          stepOrder = progressCounter - 1;
+          progressCounter += planSteps.length;
+          writeStepProgress(1, 'in-progress');
+        }
+
         const result = await streamText({
           messages,
           env: context.cloudflare?.env,
@@ -285,10 +518,18 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           files,
           providerSettings,
           promptId,
+          promptTemplate,
           contextOptimization,
           contextFiles: filteredFiles,
           summary,
           messageSliceId,
+          toolCalling: useTools,
+          fallbackModels,
+          chatMode,
+          plan,
+          thinkingBudget,
+          onModelSelected,
+          onTokenBudget,
         });
 
         (async () => {
@@ -301,56 +542,38 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             }
           }
         })();
-        result.mergeIntoDataStream(dataStream);
+        result.mergeIntoDataStream(dataStream, { sendReasoning: true });
       },
       onError: (error: any) => `Custom error: ${error.message}`,
     }).pipeThrough(
       new TransformStream({
         transform: (chunk, controller) => {
-          if (!lastChunk) {
-            lastChunk = ' ';
-          }
-
-          if (typeof chunk === 'string') {
-            if (chunk.startsWith('g') && !lastChunk.startsWith('g')) {
-              controller.enqueue(encoder.encode(`0: "<div class=\\"__boltThought__\\">"\n`));
-            }
-
-            if (lastChunk.startsWith('g') && !chunk.startsWith('g')) {
-              controller.enqueue(encoder.encode(`0: "</div>\\n"\n`));
-            }
-          }
-
-          lastChunk = chunk;
-
-          let transformedChunk = chunk;
-
-          if (typeof chunk === 'string' && chunk.startsWith('g')) {
-            let content = chunk.split(':').slice(1).join(':');
-
-            if (content.endsWith('\n')) {
-              content = content.slice(0, content.length - 1);
-            }
-
-            transformedChunk = `0:${content}\n`;
-          }
-
           // Convert the string stream to a byte stream
-          const str = typeof transformedChunk === 'string' ? transformedChunk : JSON.stringify(transformedChunk);
+          const str = typeof chunk === 'string' ? chunk : JSON.stringify(chunk);
           controller.enqueue(encoder.encode(str));
         },
       }),
     );
 
-    return new Response(dataStream, {
-      status: 200,
-      headers: {
-        'Content-Type': 'text/event-stream; charset=utf-8',
-        Connection: 'keep-alive',
-        'Cache-Control': 'no-cache',
-        'Text-Encoding': 'chunked',
-      },
-    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      Connection: 'keep-alive',
+      'Cache-Control': 'no-cache',
+      'Text-Encoding': 'chunked',
+    };
+
+    let body: ReadableStream<Uint8Array> = dataStream;
+
+    if (resumable) {
+      const resumableStream = createResumableStream(dataStream);
+
+      // the generation goes on when the client disconnects
+      context.cloudflare?.ctx?.waitUntil?.(resumableStream.done);
+      body = resumableStream.stream;
+      headers[RESUME_TOKEN_HEADER] = resumableStream.token;
+    }
+
+    return new Response(body, { status: 200, headers });
   } catch (error: any) {
     logger.error(error);
 
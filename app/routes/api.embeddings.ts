@@ -0,0 +1,75 @@
+import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { embedMany } from 'ai';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { createScopedLogger } from '~/utils/logger';
+
+export async function action(args: ActionFunctionArgs) {
+  return embeddingsAction(args);
+}
+
+const logger = createScopedLogger('api.embeddings');
+
+// chunks of the project files, embedded for the retrieval of context files
+async function embeddingsAction({ context, request }: ActionFunctionArgs) {
+  const {
+    provider: providerName,
+    model,
+    values,
+  } = await request.json<{
+    provider: string;
+    model: string;
+    values: string[];
+  }>();
+
+  if (!providerName || !model || !Array.isArray(values)) {
+    throw new Response('Invalid or missing provider, model or values', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  const cookieHeader = request.headers.get('Cookie');
+  const apiKeys = getApiKeysFromCookie(cookieHeader);
+  const providerSettings = getProviderSettingsFromCookie(cookieHeader);
+  const llmManager = LLMManager.getInstance(context.cloudflare?.env as any);
+
+  llmManager.registerCustomProviders(providerSettings);
+
+  const provider = llmManager.getProvider(providerName);
+
+  if (!provider?.getEmbeddingModelInstance) {
+    throw new Response(`${providerName} has no embedding models`, {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  try {
+    const { embeddings, usage } = await embedMany({
+      model: provider.getEmbeddingModelInstance({
+        model,
+        serverEnv: context.cloudflare?.env as any,
+        apiKeys,
+        providerSettings,
+      }),
+      values,
+    });
+
+    return json({ embeddings, usage });
+  } catch (error: unknown) {
+    logger.error(`Failed to embed ${values.length} values with ${providerName}/${model}`, error);
+
+    if (error instanceof Error && error.message?.includes('API key')) {
+      throw new Response('Invalid or missing API key', {
+        status: 401,
+        statusText: 'Unauthorized',
+      });
+    }
+
+    throw new Response(error instanceof Error ? error.message : 'Failed to embed', {
+      status: 500,
+      statusText: 'Internal Server Error',
+    });
+  }
+}
@@ -1,8 +1,9 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { streamText } from '~/lib/.server/llm/stream-text';
 import { stripIndents } from '~/utils/stripIndent';
-import type { ProviderInfo } from '~/types/model';
+import type { ModelReference, ProviderInfo } from '~/types/model';
 import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { LLMManager } from '~/lib/modules/llm/manager';
 import { createScopedLogger } from '~/utils/logger';
 
 export async function action(args: ActionFunctionArgs) {
@@ -12,14 +13,18 @@ export async function action(args: ActionFunctionArgs) {
 const logger = createScopedLogger('api.enhancher');
 
 async function enhancerAction({ context, request }: ActionFunctionArgs) {
-  const { message, model, provider } = await request.json<{
+  const { message, provider, utilityModel, ...body } = await request.json<{
     message: string;
     model: string;
     provider: ProviderInfo;
     apiKeys?: Record<string, string>;
+
+    // enhances the prompt instead of the selected model
+    utilityModel?: ModelReference;
   }>();
 
-  const { name: providerName } = provider;
+  let { model } = body;
+  let { name: providerName } = provider;
 
   // validate 'model' and 'provider' fields
   if (!model || typeof model !== 'string') {
@@ -40,6 +45,13 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
   const apiKeys = getApiKeysFromCookie(cookieHeader);
   const providerSettings = getProviderSettingsFromCookie(cookieHeader);
 
+  LLMManager.getInstance(context.cloudflare?.env as any).registerCustomProviders(providerSettings);
+
+  if (utilityModel && LLMManager.getInstance().getProvider(utilityModel.provider)) {
+    model = utilityModel.model;
+    providerName = utilityModel.provider;
+  }
+
   try {
     const result = await streamText({
       messages: [
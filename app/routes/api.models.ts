@@ -21,6 +21,7 @@ function getProviderInfo(llmManager: LLMManager) {
       getApiKeyLink: provider.getApiKeyLink,
       labelForGetApiKey: provider.labelForGetApiKey,
       icon: provider.icon,
+      embeddingModels: provider.embeddingModels,
     }));
   }
 
@@ -58,6 +59,8 @@ export async function loader({
   const apiKeys = getApiKeysFromCookie(cookieHeader);
   const providerSettings = getProviderSettingsFromCookie(cookieHeader);
 
+  llmManager.registerCustomProviders(providerSettings);
+
   const { providers, defaultProvider } = getProviderInfo(llmManager);
 
   let modelList: ModelInfo[] = [];
@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'edit' | 'delete' | 'rename' | 'move' | 'read' | 'shell' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,6 +11,41 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+export interface EditAction extends BaseAction {
+  type: 'edit';
+  filePath: string;
+}
+
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+export interface RenameAction extends BaseAction {
+  type: 'rename';
+  filePath: string;
+  newFilePath: string;
+}
+
+export interface MoveAction extends BaseAction {
+  type: 'move';
+  filePath: string;
+  newFilePath: string;
+}
+
+/**
+ * Reads from the project while the response is generated. It is resolved on the server, which continues
+ * the response with the result.
+ */
+export interface ReadAction extends BaseAction {
+  type: 'read';
+  operation: ReadOperation;
+  path: string;
+  pattern?: string;
+}
+
+export type ReadOperation = 'file' | 'list' | 'grep';
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -30,7 +65,17 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type BoltAction =
+  | FileAction
+  | EditAction
+  | DeleteAction
+  | RenameAction
+  | MoveAction
+  | ReadAction
+  | ShellAction
+  | StartAction
+  | BuildAction
+  | SupabaseAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
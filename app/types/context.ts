@@ -1,3 +1,11 @@
+import type { ModelReference } from '~/types/model';
+
+/**
+ * How the files of the context buffer are picked: by the model from all paths, by the model from the files
+ * most similar to the request, or the most similar files directly without a model call.
+ */
+export type ContextSelection = 'llm' | 'hybrid' | 'embeddings';
+
 export type ContextAnnotation =
   | {
       type: 'codeContext';
@@ -15,4 +23,70 @@ export type ProgressAnnotation = {
   status: 'in-progress' | 'complete';
   order: number;
   message: string;
+
+  // the model that runs the stage
+  model?: ModelReference;
+};
+
+export type ModelAnnotation = {
+  type: 'model';
+  provider: string;
+  model: string;
+
+  // whether a fallback model answered instead of the selected one
+  fallback: boolean;
+};
+
+export type ModelUsage = {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+
+  // prompt tokens read from and written to the prompt cache of the provider, included in `promptTokens`
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+
+  // in USD, missing when the pricing of the model is unknown
+  cost?: number;
+};
+
+export type UsageAnnotation = {
+  type: 'usage';
+  value: {
+    completionTokens: number;
+    promptTokens: number;
+    totalTokens: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+    cost?: number;
+    models: ModelUsage[];
+  };
+};
+
+/**
+ * The tokens of the prompt of a request by part, counted before it is sent to fit the context window of the model.
+ */
+export type TokenBudgetAnnotation = {
+  type: 'tokenBudget';
+
+  // missing when the context window of the model is unknown, then nothing is trimmed
+  contextWindow?: number;
+  maxOutputTokens: number;
+  systemPrompt: number;
+  summary: number;
+  contextFiles: number;
+  history: number;
+  total: number;
+
+  // messages and context files left out to fit the context window
+  trimmedMessages: number;
+  trimmedFiles: number;
+};
+
+export type ReasoningAnnotation = {
+  type: 'reasoning';
+
+  // in milliseconds, one annotation per block of reasoning of the response
+  duration: number;
 };
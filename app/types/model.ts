@@ -12,13 +12,26 @@ export type ProviderInfo = {
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
+  embeddingModels?: string[];
 };
 
 export interface IProviderSetting {
   enabled?: boolean;
   baseUrl?: string;
+
+  // only set for OpenAI-compatible endpoints the user added
+  custom?: boolean;
+  local?: boolean;
+  headers?: Record<string, string>;
+  models?: string[];
 }
 
 export type IProviderConfig = ProviderInfo & {
   settings: IProviderSetting;
 };
+
+// a type rather than an interface, so that it can be sent in annotations
+export type ModelReference = {
+  provider: string;
+  model: string;
+};
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { extractRelativePath } from './diff';
+import { diffFileMaps, extractRelativePath } from './diff';
 import { WORK_DIR } from './constants';
 
 describe('Diff', () => {
@@ -8,4 +8,26 @@ describe('Diff', () => {
     const result = extractRelativePath(filePath);
     expect(result).toBe('index.js');
   });
+
+  it('should list the changes between file maps', () => {
+    const from = {
+      [`${WORK_DIR}/index.js`]: { type: 'file', content: 'const a = 1;\n', isBinary: false },
+      [`${WORK_DIR}/old.js`]: { type: 'file', content: '', isBinary: false },
+      [`${WORK_DIR}/same.js`]: { type: 'file', content: 'same', isBinary: false },
+    } as const;
+    const to = {
+      [`${WORK_DIR}/index.js`]: { type: 'file', content: 'const a = 2;\n', isBinary: false },
+      [`${WORK_DIR}/new.js`]: { type: 'file', content: '', isBinary: false },
+      [`${WORK_DIR}/same.js`]: { type: 'file', content: 'same', isBinary: false },
+    } as const;
+
+    const changes = diffFileMaps(from, to);
+
+    expect(changes.map(({ filePath, type }) => [extractRelativePath(filePath), type])).toEqual([
+      ['index.js', 'modified'],
+      ['new.js', 'added'],
+      ['old.js', 'removed'],
+    ]);
+    expect(changes[0].diff).toContain('-const a = 1;\n+const a = 2;');
+  });
 });
@@ -75,6 +75,47 @@ export function diffFiles(fileName: string, oldFileContent: string, newFileConte
   return unifiedDiff;
 }
 
+export interface FileMapChange {
+  filePath: string;
+  type: 'added' | 'removed' | 'modified';
+
+  /**
+   * Unified diff of text files that were modified.
+   */
+  diff?: string;
+}
+
+/**
+ * Lists the files that change when going from one file map to another, sorted by path.
+ */
+export function diffFileMaps(from: FileMap, to: FileMap) {
+  const changes: FileMapChange[] = [];
+
+  for (const [filePath, dirent] of Object.entries(to)) {
+    if (dirent?.type !== 'file') {
+      continue;
+    }
+
+    const previous = from[filePath];
+
+    if (previous?.type !== 'file') {
+      changes.push({ filePath, type: 'added' });
+    } else if (previous.content !== dirent.content) {
+      const diff =
+        previous.isBinary || dirent.isBinary ? undefined : diffFiles(filePath, previous.content, dirent.content);
+      changes.push({ filePath, type: 'modified', diff });
+    }
+  }
+
+  for (const [filePath, dirent] of Object.entries(from)) {
+    if (dirent?.type === 'file' && to[filePath]?.type !== 'file') {
+      changes.push({ filePath, type: 'removed' });
+    }
+  }
+
+  return changes.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
 const regex = new RegExp(`^${WORK_DIR}\/`);
 
 /**
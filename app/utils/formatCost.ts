@@ -0,0 +1,7 @@
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) {
+    return '<$0.01';
+  }
+
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { mergeThreeWay, resolveMerge } from './merge';
+
+const base = ['import a;', '', 'function one() {}', '', 'function two() {}', ''].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('should merge changes to different regions', () => {
+    const mine = base.replace('function one() {}', 'function one() { return 1; }');
+    const theirs = base.replace('function two() {}', 'function two() { return 2; }');
+
+    const { chunks, hasConflicts } = mergeThreeWay(base, mine, theirs);
+
+    expect(hasConflicts).toBe(false);
+    expect(resolveMerge(chunks)).toBe(
+      ['import a;', '', 'function one() { return 1; }', '', 'function two() { return 2; }', ''].join('\n'),
+    );
+  });
+
+  it('should take identical changes once', () => {
+    const changed = base.replace('import a;', 'import b;');
+
+    const { chunks, hasConflicts } = mergeThreeWay(base, changed, changed);
+
+    expect(hasConflicts).toBe(false);
+    expect(resolveMerge(chunks)).toBe(changed);
+  });
+
+  it('should report conflicting changes to the same region', () => {
+    const mine = base.replace('function one() {}', 'function mine() {}');
+    const theirs = base.replace('function one() {}', 'function theirs() {}');
+
+    const { chunks, hasConflicts } = mergeThreeWay(base, mine, theirs);
+
+    expect(hasConflicts).toBe(true);
+    expect(chunks.filter((chunk) => chunk.type === 'conflict')).toEqual([
+      { type: 'conflict', base: ['function one() {}'], mine: ['function mine() {}'], theirs: ['function theirs() {}'] },
+    ]);
+
+    expect(resolveMerge(chunks, ['theirs'])).toBe(theirs);
+    expect(resolveMerge(chunks, ['mine'])).toBe(mine);
+    expect(resolveMerge(chunks, ['both'])).toContain('function mine() {}\nfunction theirs() {}');
+  });
+});
@@ -0,0 +1,206 @@
+import { diffArrays } from 'diff';
+
+export type MergeChunk =
+  | {
+      type: 'stable';
+      lines: string[];
+    }
+  | {
+      type: 'conflict';
+      base: string[];
+      mine: string[];
+      theirs: string[];
+    };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  hasConflicts: boolean;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+interface SideHunk {
+  side: 'mine' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+/**
+ * Line based three-way merge of two descendants of the same base content (diff3). Regions changed by
+ * only one side are taken from that side, regions changed identically by both sides are taken once and
+ * overlapping or adjacent regions with different changes become conflicts.
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const sides = { mine: splitLines(mine), theirs: splitLines(theirs) };
+
+  const hunks = [...computeHunks(baseLines, sides.mine, 'mine'), ...computeHunks(baseLines, sides.theirs, 'theirs')];
+  hunks.sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const chunks: MergeChunk[] = [];
+  let hasConflicts = false;
+  let basePosition = 0;
+
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) {
+      return;
+    }
+
+    const previous = chunks[chunks.length - 1];
+
+    if (previous?.type === 'stable') {
+      previous.lines.push(...lines);
+    } else {
+      chunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  let i = 0;
+
+  while (i < hunks.length) {
+    const group = [hunks[i]];
+    let groupEnd = hunks[i].baseEnd;
+
+    i++;
+
+    while (i < hunks.length && hunks[i].baseStart <= groupEnd) {
+      group.push(hunks[i]);
+      groupEnd = Math.max(groupEnd, hunks[i].baseEnd);
+      i++;
+    }
+
+    const groupStart = group[0].baseStart;
+
+    pushStable(baseLines.slice(basePosition, groupStart));
+
+    const baseRegion = baseLines.slice(groupStart, groupEnd);
+    const mineRegion = resolveRegion(group, 'mine', sides.mine, baseRegion, groupStart, groupEnd);
+    const theirsRegion = resolveRegion(group, 'theirs', sides.theirs, baseRegion, groupStart, groupEnd);
+
+    if (!group.some((hunk) => hunk.side === 'theirs')) {
+      pushStable(mineRegion);
+    } else if (!group.some((hunk) => hunk.side === 'mine') || linesEqual(mineRegion, theirsRegion)) {
+      pushStable(theirsRegion);
+    } else {
+      hasConflicts = true;
+      chunks.push({ type: 'conflict', base: baseRegion, mine: mineRegion, theirs: theirsRegion });
+    }
+
+    basePosition = groupEnd;
+  }
+
+  pushStable(baseLines.slice(basePosition));
+
+  return { chunks, hasConflicts };
+}
+
+/**
+ * Builds the final content from merge chunks. `resolutions` holds one entry per conflict chunk in
+ * order; unresolved conflicts fall back to `fallback`.
+ */
+export function resolveMerge(
+  chunks: MergeChunk[],
+  resolutions: Array<ConflictResolution | undefined> = [],
+  fallback: ConflictResolution = 'mine',
+) {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+
+    const resolution = resolutions[conflictIndex++] ?? fallback;
+
+    if (resolution === 'mine' || resolution === 'both') {
+      lines.push(...chunk.mine);
+    }
+
+    if (resolution === 'theirs' || resolution === 'both') {
+      lines.push(...chunk.theirs);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function computeHunks(baseLines: string[], sideLines: string[], side: SideHunk['side']) {
+  const hunks: SideHunk[] = [];
+
+  let basePosition = 0;
+  let sidePosition = 0;
+  let current: SideHunk | undefined;
+
+  for (const change of diffArrays(baseLines, sideLines)) {
+    const count = change.count ?? change.value.length;
+
+    if (!change.added && !change.removed) {
+      if (current) {
+        hunks.push(current);
+        current = undefined;
+      }
+
+      basePosition += count;
+      sidePosition += count;
+
+      continue;
+    }
+
+    current ??= {
+      side,
+      baseStart: basePosition,
+      baseEnd: basePosition,
+      sideStart: sidePosition,
+      sideEnd: sidePosition,
+    };
+
+    if (change.removed) {
+      basePosition += count;
+      current.baseEnd = basePosition;
+    } else {
+      sidePosition += count;
+      current.sideEnd = sidePosition;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+function resolveRegion(
+  group: SideHunk[],
+  side: SideHunk['side'],
+  sideLines: string[],
+  baseRegion: string[],
+  groupStart: number,
+  groupEnd: number,
+) {
+  const sideHunks = group.filter((hunk) => hunk.side === side);
+
+  if (sideHunks.length === 0) {
+    return baseRegion;
+  }
+
+  // outside of its own hunks a side matches the base, so the region can be extended by the base offsets
+  const first = sideHunks[0];
+  const last = sideHunks[sideHunks.length - 1];
+  const start = first.sideStart - (first.baseStart - groupStart);
+  const end = last.sideEnd + (groupEnd - last.baseEnd);
+
+  return sideLines.slice(start, end);
+}
+
+function splitLines(content: string) {
+  return content.replace(/\r\n/g, '\n').split('\n');
+}
+
+function linesEqual(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { applyEditHunks, EditHunkError, parseEditHunks } from './patch';
+
+describe('parseEditHunks', () => {
+  it('should parse search/replace blocks', () => {
+    const content = [
+      '<<<<<<< SEARCH',
+      'const a = 1;',
+      '=======',
+      'const a = 2;',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      'const b = 1;',
+      '=======',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(parseEditHunks(content)).toEqual([
+      { search: 'const a = 1;', replace: 'const a = 2;' },
+      { search: 'const b = 1;', replace: '' },
+    ]);
+  });
+
+  it('should parse unified diff hunks', () => {
+    const content = ['@@ -1,3 +1,3 @@', ' import a;', '-const a = 1;', '+const a = 2;', ' export a;'].join('\n');
+
+    expect(parseEditHunks(content)).toEqual([
+      { search: 'import a;\nconst a = 1;\nexport a;', replace: 'import a;\nconst a = 2;\nexport a;' },
+    ]);
+  });
+
+  it('should reject unterminated blocks', () => {
+    expect(() => parseEditHunks('<<<<<<< SEARCH\nconst a = 1;\n=======\n')).toThrow('Unterminated');
+  });
+});
+
+describe('applyEditHunks', () => {
+  it('should apply hunks in order', () => {
+    const original = 'foo();\nbar();\nfoo();\n';
+
+    const result = applyEditHunks(original, [
+      { search: 'foo();', replace: 'one();' },
+      { search: 'foo();', replace: 'two();' },
+    ]);
+
+    expect(result).toBe('one();\nbar();\ntwo();\n');
+  });
+
+  it('should ignore trailing whitespace when matching', () => {
+    const result = applyEditHunks('if (a) {  \n  run();\n}\n', [{ search: 'if (a) {\n  run();', replace: 'if (b) {' }]);
+
+    expect(result).toBe('if (b) {\n}\n');
+  });
+
+  it('should report the hunk that does not apply', () => {
+    const hunk = { search: 'missing();', replace: 'found();' };
+
+    try {
+      applyEditHunks('foo();\n', [{ search: 'foo();', replace: 'bar();' }, hunk]);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(EditHunkError);
+      expect((error as EditHunkError).hunk).toEqual(hunk);
+      expect((error as EditHunkError).hunkIndex).toBe(1);
+      expect((error as EditHunkError).message).toContain('missing();');
+    }
+  });
+});
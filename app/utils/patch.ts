@@ -0,0 +1,189 @@
+import { parsePatch } from 'diff';
+
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+
+export interface EditHunk {
+  search: string;
+  replace: string;
+}
+
+export class EditHunkError extends Error {
+  readonly hunk: EditHunk;
+  readonly hunkIndex: number;
+
+  constructor(message: string, hunk: EditHunk, hunkIndex: number) {
+    super(`${message}\n\nHunk #${hunkIndex + 1}:\n${formatHunk(hunk)}`);
+
+    this.hunk = hunk;
+    this.hunkIndex = hunkIndex;
+
+    Object.setPrototypeOf(this, EditHunkError.prototype);
+
+    this.name = 'EditHunkError';
+  }
+}
+
+/**
+ * Parses the body of an `edit` action into a list of hunks. Two formats are supported:
+ *
+ * Search/replace blocks:
+ *
+ * ```
+ * <<<<<<< SEARCH
+ * const a = 1;
+ * =======
+ * const a = 2;
+ * >>>>>>> REPLACE
+ * ```
+ *
+ * Unified diffs, with or without the `---`/`+++` file header:
+ *
+ * ```
+ * @@ -1,1 +1,1 @@
+ * -const a = 1;
+ * +const a = 2;
+ * ```
+ */
+export function parseEditHunks(content: string): EditHunk[] {
+  const lines = content.split('\n');
+
+  if (lines.some((line) => SEARCH_MARKER.test(line))) {
+    return parseSearchReplaceBlocks(lines);
+  }
+
+  if (lines.some((line) => line.startsWith('@@'))) {
+    return parseUnifiedDiff(content);
+  }
+
+  throw new Error('Edit action contains neither search/replace blocks nor unified diff hunks');
+}
+
+/**
+ * Applies the hunks in order to the given content. Each hunk is looked up after the end of the previous
+ * one first so repeated snippets are matched in order, then anywhere in the file. Lines are compared
+ * exactly and, as a fallback, ignoring trailing whitespace.
+ *
+ * @throws {EditHunkError} if a hunk cannot be located in the content.
+ */
+export function applyEditHunks(content: string, hunks: EditHunk[]) {
+  let result = content;
+  let cursor = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    if (hunk.search === '') {
+      if (result.trim() !== '') {
+        throw new EditHunkError('Empty search block can only be used on an empty file', hunk, index);
+      }
+
+      result = hunk.replace;
+      cursor = result.length;
+
+      continue;
+    }
+
+    const match = findHunk(result, hunk.search, cursor) ?? findHunk(result, hunk.search, 0);
+
+    if (!match) {
+      throw new EditHunkError('Search block does not match the current file content', hunk, index);
+    }
+
+    result = result.slice(0, match.start) + hunk.replace + result.slice(match.end);
+    cursor = match.start + hunk.replace.length;
+  }
+
+  return result;
+}
+
+function parseSearchReplaceBlocks(lines: string[]) {
+  const hunks: EditHunk[] = [];
+
+  let section: 'none' | 'search' | 'replace' = 'none';
+  let search: string[] = [];
+  let replace: string[] = [];
+
+  for (const line of lines) {
+    if (SEARCH_MARKER.test(line)) {
+      section = 'search';
+      search = [];
+      replace = [];
+    } else if (section === 'search' && DIVIDER_MARKER.test(line)) {
+      section = 'replace';
+    } else if (section === 'replace' && REPLACE_MARKER.test(line)) {
+      hunks.push({ search: search.join('\n'), replace: replace.join('\n') });
+      section = 'none';
+    } else if (section === 'search') {
+      search.push(line);
+    } else if (section === 'replace') {
+      replace.push(line);
+    }
+  }
+
+  if (section !== 'none') {
+    throw new Error('Unterminated search/replace block');
+  }
+
+  return hunks;
+}
+
+function parseUnifiedDiff(content: string) {
+  const hunks: EditHunk[] = [];
+
+  for (const patch of parsePatch(content)) {
+    for (const { lines } of patch.hunks) {
+      const search: string[] = [];
+      const replace: string[] = [];
+
+      for (const line of lines) {
+        const marker = line[0];
+        const text = line.slice(1);
+
+        if (marker === ' ') {
+          search.push(text);
+          replace.push(text);
+        } else if (marker === '-') {
+          search.push(text);
+        } else if (marker === '+') {
+          replace.push(text);
+        }
+      }
+
+      hunks.push({ search: search.join('\n'), replace: replace.join('\n') });
+    }
+  }
+
+  return hunks;
+}
+
+function findHunk(content: string, search: string, from: number) {
+  const start = content.indexOf(search, from);
+
+  if (start !== -1) {
+    return { start, end: start + search.length };
+  }
+
+  return findHunkIgnoringTrailingWhitespace(content, search, from);
+}
+
+function findHunkIgnoringTrailingWhitespace(content: string, search: string, from: number) {
+  const lines = content.split('\n');
+  const searchLines = search.split('\n').map((line) => line.trimEnd());
+
+  let offset = 0;
+
+  for (let i = 0; i <= lines.length - searchLines.length; i++) {
+    if (offset >= from && searchLines.every((line, j) => lines[i + j].trimEnd() === line)) {
+      const matched = lines.slice(i, i + searchLines.length).join('\n');
+      return { start: offset, end: offset + matched.length };
+    }
+
+    offset += lines[i].length + 1;
+  }
+
+  return undefined;
+}
+
+function formatHunk({ search, replace }: EditHunk) {
+  return ['<<<<<<< SEARCH', search, '=======', replace, '>>>>>>> REPLACE'].join('\n');
+}
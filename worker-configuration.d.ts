@@ -18,4 +18,6 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  MOCK_LLM_FIXTURES_DIR: string;
+  MOCK_LLM_RECORD: string;
 }